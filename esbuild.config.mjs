@@ -41,9 +41,27 @@ const context = await esbuild.context({
 	minify: prod,
 });
 
+// Standalone mock agent, spawned by the "Mock agent" profile.
+const mockAgentContext = await esbuild.context({
+	banner: {
+		js: banner,
+	},
+	entryPoints: ["src/mock/agent.ts"],
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node16",
+	logLevel: "info",
+	sourcemap: prod ? false : "inline",
+	outfile: "build/mock-agent.js",
+	minify: prod,
+});
+
 if (prod) {
 	await context.rebuild();
+	await mockAgentContext.rebuild();
 	process.exit(0);
 } else {
 	await context.watch();
+	await mockAgentContext.watch();
 }
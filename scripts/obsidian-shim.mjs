@@ -0,0 +1,42 @@
+// Runtime stand-in for the parts of the Obsidian API that the tested modules
+// use, so tests can run the plugin's agent client and note formatting under
+// Node. The `obsidian` package ships only type definitions.
+
+export { default as moment } from "moment";
+
+export class TAbstractFile {
+	constructor(path) {
+		this.path = path;
+		this.name = path.split("/").pop() ?? path;
+	}
+}
+
+export class TFile extends TAbstractFile {}
+
+export class TFolder extends TAbstractFile {}
+
+export class MarkdownView {}
+
+export class FileSystemAdapter {
+	constructor(basePath) {
+		this.basePath = basePath;
+	}
+
+	getBasePath() {
+		return this.basePath;
+	}
+}
+
+export const Platform = {
+	isDesktopApp: true,
+	isLinux: process.platform === "linux",
+	isMacOS: process.platform === "darwin",
+	isWin: process.platform === "win32",
+};
+
+export const normalizePath = (path) =>
+	path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "") || "/";
+
+// JSON values are valid YAML, which is all the tests need.
+export const stringifyYaml = (data) =>
+	Object.entries(data).map(([key, value]) => `${key}: ${JSON.stringify(value)}\n`).join("");
@@ -0,0 +1,883 @@
+// End-to-end checks against the bundled mock agent: its scenarios driven
+// through the ACP SDK client, and the plugin's own AcpClient run under Node
+// with the Obsidian shim in scripts/obsidian-shim.mjs. Unit tests cover the
+// pure helpers in the same bundle.
+import esbuild from "esbuild";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable, Writable } from "node:stream";
+import { test } from "node:test";
+import * as acp from "@agentclientprotocol/sdk";
+
+const workDir = await mkdtemp(join(tmpdir(), "mock-agent-"));
+const agentPath = join(workDir, "mock-agent.js");
+
+await esbuild.build({
+	entryPoints: ["src/mock/agent.ts"],
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node16",
+	logLevel: "warning",
+	outfile: agentPath,
+});
+
+const pluginPath = join(workDir, "plugin.cjs");
+
+await esbuild.build({
+	stdin: {
+		contents: [
+			'export { default as AcpClient } from "./acp/client";',
+			'export { AcpSession } from "./acp/session";',
+			'export { createReplayStream, parseTrace } from "./acp/trace";',
+			'export { CONFLICT_MARKERS, mergeThreeWay } from "./acp/merge";',
+			'export { diffLines } from "./acp/diff";',
+			'export { evaluateAccess, globToRegExp } from "./acp/accessPolicy";',
+			'export { extractFirstPrompt, formatConversationNote } from "./conversationNotes";',
+			'export { encodePrompt } from "./acp/promptEncoding";',
+			'export { matchesToolCallFilter, mergeToolCall } from "./chat/utils/toolCalls";',
+			'export { FileSystemAdapter } from "obsidian";',
+		].join("\n"),
+		resolveDir: "src",
+		loader: "ts",
+	},
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node16",
+	logLevel: "warning",
+	alias: { obsidian: "./scripts/obsidian-shim.mjs" },
+	outfile: pluginPath,
+});
+
+// The plugin reaches Node modules through Obsidian's `window.require`.
+const require = createRequire(import.meta.url);
+globalThis.window = Object.assign(globalThis, { require });
+const plugin = require(pluginPath);
+// Keep the client's process lifecycle logging out of the test report.
+console.debug = () => undefined;
+
+const startAgent = (args, client) => {
+	const child = spawn(process.execPath, [agentPath, ...args], {
+		cwd: workDir,
+		stdio: ["pipe", "pipe", "inherit"],
+	});
+	const stream = acp.ndJsonStream(Writable.toWeb(child.stdin), Readable.toWeb(child.stdout));
+	const connection = new acp.ClientSideConnection(() => client, stream);
+	return { child, connection };
+};
+
+const createClient = ({ allow }) => {
+	const updates = [];
+	const permissions = [];
+	return {
+		updates,
+		permissions,
+		async sessionUpdate({ update }) {
+			updates.push(update);
+		},
+		async requestPermission(params) {
+			permissions.push(params);
+			return { outcome: { outcome: "selected", optionId: allow ? "allow" : "reject" } };
+		},
+		async readTextFile({ path }) {
+			return { content: await readFile(path, "utf8") };
+		},
+		async writeTextFile({ path, content }) {
+			await writeFile(path, content);
+			return {};
+		},
+	};
+};
+
+const runPrompt = async (client, args, text) => {
+	const { child, connection } = startAgent(args, client);
+	try {
+		await connection.initialize({ protocolVersion: acp.PROTOCOL_VERSION, clientCapabilities: {} });
+		const { sessionId } = await connection.newSession({ cwd: workDir, mcpServers: [] });
+		return await connection.prompt({ sessionId, prompt: [{ type: "text", text }] });
+	} finally {
+		child.kill();
+	}
+};
+
+const kinds = (updates) => new Set(updates.map((update) => update.sessionUpdate));
+
+test("default scenario streams updates and uses the file tools", async () => {
+	await writeFile(join(workDir, "Welcome.md"), "Hello from the test vault.\n");
+	const client = createClient({ allow: true });
+
+	const response = await runPrompt(client, [], "summarize my vault");
+
+	assert.equal(response.stopReason, "end_turn");
+	for (const kind of ["agent_thought_chunk", "plan", "tool_call", "tool_call_update", "agent_message_chunk"]) {
+		assert.ok(kinds(client.updates).has(kind), `missing ${kind}`);
+	}
+	assert.equal(client.permissions.length, 1);
+	const output = await readFile(join(workDir, "mock-agent-output.md"), "utf8");
+	assert.match(output, /Prompt: summarize my vault/);
+	assert.match(output, /Hello from the test vault\./);
+});
+
+test("rejected permission stops the turn before writing", async () => {
+	await rm(join(workDir, "mock-agent-output.md"), { force: true });
+	const client = createClient({ allow: false });
+
+	const response = await runPrompt(client, [], "try again");
+
+	assert.equal(response.stopReason, "end_turn");
+	await assert.rejects(readFile(join(workDir, "mock-agent-output.md"), "utf8"));
+	assert.ok(client.updates.some((update) => update.sessionUpdate === "tool_call_update" && update.status === "failed"));
+});
+
+test("scenario files select turns by prompt", async () => {
+	const scenarioPath = join(workDir, "scenario.json");
+	await writeFile(scenarioPath, JSON.stringify({
+		name: "Echo",
+		turns: [
+			{ match: "^ping", steps: [{ type: "message", text: "pong" }] },
+			{ steps: [{ type: "message", text: "echo: {{prompt}}" }] },
+		],
+	}));
+	const client = createClient({ allow: true });
+
+	await runPrompt(client, ["--scenario", "scenario.json"], "ping");
+
+	const text = client.updates
+		.filter((update) => update.sessionUpdate === "agent_message_chunk")
+		.map((update) => update.content.text)
+		.join("");
+	assert.equal(text, "pong");
+});
+
+test("scenarios with auth methods require authenticate before session/new", async () => {
+	await writeFile(join(workDir, "auth.json"), JSON.stringify({
+		name: "Auth",
+		authMethods: [{ id: "token", name: "Token" }],
+		turns: [{ steps: [{ type: "message", text: "signed in" }] }],
+	}));
+	const { child, connection } = startAgent(["--scenario", "auth.json"], createClient({ allow: true }));
+	try {
+		const init = await connection.initialize({ protocolVersion: acp.PROTOCOL_VERSION, clientCapabilities: {} });
+		assert.deepEqual(init.authMethods.map((method) => method.id), ["token"]);
+		await assert.rejects(connection.newSession({ cwd: workDir, mcpServers: [] }), { code: -32000 });
+		await connection.authenticate({ methodId: "token" });
+		const { sessionId } = await connection.newSession({ cwd: workDir, mcpServers: [] });
+		assert.ok(sessionId);
+	} finally {
+		child.kill();
+	}
+});
+
+test("scenario modes are offered, switchable and announced", async () => {
+	await writeFile(join(workDir, "modes.json"), JSON.stringify({
+		name: "Modes",
+		modes: [{ id: "ask", name: "Ask" }, { id: "code", name: "Code" }],
+		turns: [{ steps: [{ type: "mode", modeId: "ask" }] }],
+	}));
+	const client = createClient({ allow: true });
+	const { child, connection } = startAgent(["--scenario", "modes.json"], client);
+	try {
+		await connection.initialize({ protocolVersion: acp.PROTOCOL_VERSION, clientCapabilities: {} });
+		const { sessionId, modes } = await connection.newSession({ cwd: workDir, mcpServers: [] });
+		assert.equal(modes.currentModeId, "ask");
+		await connection.setSessionMode({ sessionId, modeId: "code" });
+		await assert.rejects(connection.setSessionMode({ sessionId, modeId: "plan" }));
+		await connection.prompt({ sessionId, prompt: [{ type: "text", text: "go" }] });
+		assert.ok(client.updates.some((update) => update.sessionUpdate === "current_mode_update" && update.currentModeId === "ask"));
+	} finally {
+		child.kill();
+	}
+});
+
+test("scenario config options can be changed", async () => {
+	await writeFile(join(workDir, "config.json"), JSON.stringify({
+		name: "Config",
+		configOptions: [{
+			id: "model",
+			name: "Model",
+			type: "select",
+			category: "model",
+			currentValue: "fast",
+			options: [{ value: "fast", name: "Fast" }, { value: "smart", name: "Smart" }],
+		}],
+		turns: [],
+	}));
+	const { child, connection } = startAgent(["--scenario", "config.json"], createClient({ allow: true }));
+	try {
+		await connection.initialize({ protocolVersion: acp.PROTOCOL_VERSION, clientCapabilities: {} });
+		const { sessionId, configOptions } = await connection.newSession({ cwd: workDir, mcpServers: [] });
+		assert.equal(configOptions[0].currentValue, "fast");
+		const response = await connection.unstable_setSessionConfigOption({ sessionId, configId: "model", value: "smart" });
+		assert.equal(response.configOptions[0].currentValue, "smart");
+	} finally {
+		child.kill();
+	}
+});
+
+const mockProfile = (args, overrides = {}) => ({
+	id: "mock",
+	name: "Mock agent",
+	command: process.execPath,
+	args: [agentPath, ...args],
+	env: {},
+	cwd: "",
+	shellMode: "direct",
+	defaultModeId: "",
+	...overrides,
+});
+
+const createRoute = (overrides = {}) => {
+	const updates = [];
+	return {
+		updates,
+		onSessionUpdate({ update }) {
+			updates.push(update);
+		},
+		async onRequestPermission() {
+			return { outcome: { outcome: "cancelled" } };
+		},
+		...overrides,
+	};
+};
+
+// Runs `run` with an AcpClient on a vault rooted at the work directory, and
+// stops the agent afterwards.
+const withClient = async (profile, run, options = {}) => {
+	const app = { vault: { adapter: new plugin.FileSystemAdapter(workDir), getAbstractFileByPath: () => null } };
+	const client = new plugin.AcpClient({ app, profile, ...options });
+	try {
+		return await run(client);
+	} finally {
+		await client.disconnect();
+	}
+};
+
+test("AcpClient authenticates with the chosen method and retries session/new", async () => {
+	await writeFile(join(workDir, "client-auth.json"), JSON.stringify({
+		name: "Auth",
+		authMethods: [{ id: "token", name: "Token" }],
+		turns: [],
+	}));
+	const requests = [];
+	const route = createRoute({
+		async onAuthRequired(request) {
+			requests.push(request);
+			return "token";
+		},
+	});
+
+	await withClient(mockProfile(["--scenario", "client-auth.json"]), async (client) => {
+		const sessionId = await client.openSession({ route });
+
+		assert.ok(client.hasSession(sessionId));
+		assert.equal(requests.length, 1);
+		assert.deepEqual(requests[0].methods.map((method) => method.id), ["token"]);
+		assert.match(requests[0].message, /signing in/);
+	});
+});
+
+test("AcpClient surfaces the agent's error when sign-in is cancelled", async () => {
+	await withClient(mockProfile(["--scenario", "client-auth.json"]), async (client) => {
+		const route = createRoute({ onAuthRequired: async () => null });
+
+		await assert.rejects(client.openSession({ route }), { code: -32000 });
+	});
+});
+
+test("AcpClient switches new sessions to the profile's default mode", async () => {
+	await writeFile(join(workDir, "client-modes.json"), JSON.stringify({
+		name: "Modes",
+		modes: [{ id: "ask", name: "Ask" }, { id: "code", name: "Code" }],
+		turns: [],
+	}));
+
+	await withClient(mockProfile(["--scenario", "client-modes.json"], { defaultModeId: "code" }), async (client) => {
+		const sessionId = await client.openSession({ route: createRoute() });
+		assert.equal(client.getSessionModes(sessionId).currentModeId, "code");
+	});
+	// A default the agent does not offer leaves its own choice in place.
+	await withClient(mockProfile(["--scenario", "client-modes.json"], { defaultModeId: "plan" }), async (client) => {
+		const sessionId = await client.openSession({ route: createRoute() });
+		assert.equal(client.getSessionModes(sessionId).currentModeId, "ask");
+	});
+});
+
+test("AcpClient keeps the config options returned by setSessionConfigOption", async () => {
+	await withClient(mockProfile(["--scenario", "config.json"]), async (client) => {
+		const sessionId = await client.openSession({ route: createRoute() });
+		assert.equal(client.getSessionConfigOptions(sessionId)[0].currentValue, "fast");
+
+		await client.setSessionConfigOption(sessionId, "model", "smart");
+
+		assert.equal(client.getSessionConfigOptions(sessionId)[0].currentValue, "smart");
+		await assert.rejects(client.setSessionConfigOption("unknown", "model", "smart"), /not open/);
+	});
+});
+
+test("AcpClient rejects its requests when the agent exits at startup", { timeout: 5000 }, async () => {
+	const profile = mockProfile([], { args: ["-e", "process.exit(3)"] });
+
+	await withClient(profile, async (client) => {
+		await assert.rejects(client.openSession({ route: createRoute() }), /code 3|closed/);
+		assert.equal(client.getConnectionState().status, "crashed");
+	});
+});
+
+test("AcpSession opens again after a crash instead of awaiting the failed attempt", { timeout: 5000 }, async () => {
+	const profile = mockProfile([], { args: ["-e", "process.exit(3)"] });
+
+	await withClient(profile, async (client) => {
+		const session = new plugin.AcpSession({ client });
+		try {
+			await assert.rejects(session.ensureSession(), /code 3|closed/);
+			await assert.rejects(session.sendPrompt("hello"), /code 3|closed/);
+		} finally {
+			session.dispose();
+		}
+	});
+});
+
+// Runs an agent in this process that replays one message on `session/load`,
+// then fails the load when `failLoad` is set.
+const createLoadingAgent = ({ failLoad }) => () => {
+	const toAgent = new TransformStream();
+	const toClient = new TransformStream();
+	new acp.AgentSideConnection((connection) => ({
+		async initialize() {
+			return { protocolVersion: acp.PROTOCOL_VERSION, agentCapabilities: { loadSession: true } };
+		},
+		async newSession() {
+			return { sessionId: "fresh-session" };
+		},
+		async loadSession({ sessionId }) {
+			await connection.sessionUpdate({
+				sessionId,
+				update: { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "earlier answer" } },
+			});
+			if (failLoad) {
+				throw acp.RequestError.internalError(undefined, "history is unavailable");
+			}
+			return {};
+		},
+		async authenticate() {
+			return {};
+		},
+		async prompt() {
+			return { stopReason: "end_turn" };
+		},
+		async cancel() {},
+	}), acp.ndJsonStream(toClient.writable, toAgent.readable));
+	return acp.ndJsonStream(toAgent.writable, toClient.readable);
+};
+
+const resumeWithEvents = async (failLoad) => {
+	const events = [];
+	let sessionId = null;
+	await withClient(mockProfile([]), async (client) => {
+		const session = new plugin.AcpSession({ client, sessionId: "saved-session" });
+		session.subscribeReset(() => events.push("reset"));
+		session.subscribeSessionUpdates(({ update }) => {
+			events.push(update.content.text);
+		});
+		try {
+			sessionId = await session.ensureSession();
+		} finally {
+			session.dispose();
+		}
+	}, { createStream: createLoadingAgent({ failLoad }) });
+	return { events, sessionId };
+};
+
+test("AcpSession resets the view only after session/load succeeds", async () => {
+	assert.deepEqual(await resumeWithEvents(false), {
+		events: ["reset", "earlier answer"],
+		sessionId: "saved-session",
+	});
+});
+
+test("AcpSession keeps the view when session/load fails and a new session starts", async () => {
+	// The agent logs the failed request and the client the fallback.
+	const { error, warn } = console;
+	console.error = console.warn = () => {};
+	try {
+		assert.deepEqual(await resumeWithEvents(true), { events: [], sessionId: "fresh-session" });
+	} finally {
+		Object.assign(console, { error, warn });
+	}
+});
+
+test("AcpClient rejects a prompt when the agent exits mid-turn and plans a reconnect", { timeout: 5000 }, async () => {
+	await writeFile(join(workDir, "client-exit.json"), JSON.stringify({
+		name: "Exit",
+		turns: [{ steps: [{ type: "message", text: "bye" }, { type: "exit", code: 1 }] }],
+	}));
+	const route = createRoute();
+
+	await withClient(mockProfile(["--scenario", "client-exit.json"]), async (client) => {
+		const sessionId = await client.openSession({ route });
+
+		const reconnecting = new Promise((resolve) => {
+			client.subscribeConnectionState((state) => {
+				if (state.status === "reconnecting") {
+					resolve(state);
+				}
+			});
+		});
+
+		await assert.rejects(client.sendPrompt(sessionId, "hello"), /code 1|closed/);
+
+		assert.ok(route.updates.some((update) => update.sessionUpdate === "agent_message_chunk"));
+		assert.equal((await reconnecting).attempt, 1);
+		assert.equal(client.hasSession(sessionId), false);
+	});
+});
+
+test("AcpClient terminals hold all output once wait_for_exit returns", async () => {
+	// The command exits at once; a child it leaves behind writes to the shared pipe after that.
+	const late = `setTimeout(() => process.stdout.write("late output"), 200)`;
+	const script = [
+		`require("child_process").spawn(process.execPath, ["-e", ${JSON.stringify(late)}], { stdio: "inherit" });`,
+		`process.stdout.write("early output, ");`,
+		`process.exit(0);`,
+	].join(" ");
+
+	await withClient(mockProfile([]), async (client) => {
+		const { terminalId } = await client.createTerminal({
+			sessionId: "terminal-test",
+			command: process.execPath,
+			args: ["-e", script],
+		});
+		const status = await client.waitForTerminalExit({ sessionId: "terminal-test", terminalId });
+		const { output } = await client.terminalOutput({ sessionId: "terminal-test", terminalId });
+
+		assert.equal(status.exitCode, 0);
+		assert.equal(output, "early output, late output");
+	});
+});
+
+// Whether `pid` still runs; killed processes nobody reaps linger as zombies.
+const isRunning = async (pid) => {
+	try {
+		process.kill(pid, 0);
+	} catch {
+		return false;
+	}
+	const stat = await readFile(`/proc/${pid}/stat`, "utf8").catch(() => "");
+	return !/^\d+ \(.*\) Z/.test(stat);
+};
+
+test("AcpClient kills everything a released terminal started", async () => {
+	const stubborn = `process.on("SIGTERM", () => {}); process.stdout.write(String(process.pid)); setInterval(() => {}, 1000);`;
+	const script = [
+		`require("child_process").spawn(process.execPath, ["-e", ${JSON.stringify(stubborn)}], { stdio: "inherit" });`,
+		`setInterval(() => {}, 1000);`,
+	].join(" ");
+
+	await withClient(mockProfile([]), async (client) => {
+		const { terminalId } = await client.createTerminal({
+			sessionId: "terminal-test",
+			command: process.execPath,
+			args: ["-e", script],
+		});
+		let pid = 0;
+		while (!pid) {
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			pid = Number((await client.terminalOutput({ sessionId: "terminal-test", terminalId })).output);
+		}
+
+		await client.releaseTerminal({ sessionId: "terminal-test", terminalId });
+		const deadline = Date.now() + 5000;
+		while ((await isRunning(pid)) && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, 100));
+		}
+
+		assert.equal(await isRunning(pid), false);
+	});
+});
+
+test("a recorded trace replays through AcpClient with the recorded session updates", async () => {
+	// Recorded from the mock agent: a search tool call behind a permission prompt.
+	const trace = plugin.parseTrace(await readFile("scripts/fixtures/search-turn.ndjson", "utf8"));
+	const recorded = trace.events
+		.filter(({ direction, message }) => direction === "in" && message.method === "session/update")
+		.map(({ message }) => message.params.update);
+	const permissions = [];
+	const route = createRoute({
+		async onRequestPermission(params) {
+			permissions.push(params);
+			return { outcome: { outcome: "selected", optionId: "allow" } };
+		},
+	});
+	// Passes the replay through, noting which sides the client closes.
+	const closed = [];
+	const createStream = () => {
+		const replay = plugin.createReplayStream(trace);
+		const reader = replay.readable.getReader();
+		const writer = replay.writable.getWriter();
+		return {
+			readable: new ReadableStream({
+				async pull(controller) {
+					const { value, done } = await reader.read();
+					done ? controller.close() : controller.enqueue(value);
+				},
+				cancel(reason) {
+					closed.push("readable");
+					return reader.cancel(reason);
+				},
+			}),
+			writable: new WritableStream({
+				write: (message) => writer.write(message),
+				abort(reason) {
+					closed.push("writable");
+					return writer.abort(reason);
+				},
+			}),
+		};
+	};
+
+	await withClient(mockProfile([], { command: "" }), async (client) => {
+		const sessionId = await client.openSession({ route });
+		const response = await client.sendPrompt(sessionId, "gardening");
+
+		assert.equal(sessionId, "mock-trace-1");
+		assert.equal(response.stopReason, "end_turn");
+		assert.deepEqual(permissions.map((params) => params.toolCall.toolCallId), ["search"]);
+		assert.deepEqual(route.updates, recorded);
+		const text = route.updates
+			.filter((update) => update.sessionUpdate === "agent_message_chunk")
+			.map((update) => update.content.text)
+			.join("");
+		assert.equal(text, "Found 3 notes about gardening.");
+		// The trace holds one turn; further requests fail instead of hanging.
+		await assert.rejects(client.sendPrompt(sessionId, "again"), { message: "Replay trace has ended." });
+	}, { createStream });
+
+	// Closing both sides ends the replay instead of leaving it waiting.
+	assert.deepEqual(closed.sort(), ["readable", "writable"]);
+});
+
+const conflict = (ours, theirs) => [
+	plugin.CONFLICT_MARKERS.ours,
+	...ours,
+	plugin.CONFLICT_MARKERS.separator,
+	...theirs,
+	plugin.CONFLICT_MARKERS.theirs,
+];
+
+test("diffLines numbers equal, removed and added lines on their own side", () => {
+	const diff = plugin.diffLines("a\nb\nc", "a\nB\nc\nd");
+
+	assert.deepEqual(diff, [
+		{ type: "equal", text: "a", oldLine: 1, newLine: 1 },
+		{ type: "remove", text: "b", oldLine: 2, newLine: null },
+		{ type: "add", text: "B", oldLine: null, newLine: 2 },
+		{ type: "equal", text: "c", oldLine: 3, newLine: 3 },
+		{ type: "add", text: "d", oldLine: null, newLine: 4 },
+	]);
+});
+
+test("mergeThreeWay combines edits to separate lines", () => {
+	const result = plugin.mergeThreeWay("a\nb\nc\nd\ne", "a\nB\nc\nd\ne", "a\nb\nc\nD\ne");
+
+	assert.deepEqual(result, { content: "a\nB\nc\nD\ne", conflicts: 0 });
+});
+
+test("mergeThreeWay marks differing edits to the same lines as a conflict", () => {
+	const result = plugin.mergeThreeWay("a\nb\nc\nd", "a\nX\nc\nd", "a\nY\nc\nD");
+
+	assert.equal(result.conflicts, 1);
+	assert.equal(result.content, ["a", ...conflict(["X"], ["Y"]), "c", "D"].join("\n"));
+});
+
+test("mergeThreeWay takes identical edits once", () => {
+	assert.deepEqual(plugin.mergeThreeWay("a\nb\nc", "a\nX\nc", "a\nX\nc"), { content: "a\nX\nc", conflicts: 0 });
+	assert.deepEqual(plugin.mergeThreeWay("a\nb", "a\nX\nb", "a\nX\nb"), { content: "a\nX\nb", conflicts: 0 });
+});
+
+test("mergeThreeWay keeps edits to adjacent lines side by side", () => {
+	const result = plugin.mergeThreeWay("a\nb\nc\nd", "a\nB\nc\nd", "a\nb\nC\nd");
+
+	assert.equal(result.conflicts, 1);
+	assert.equal(result.content, ["a", ...conflict(["B", "c"], ["b", "C"]), "d"].join("\n"));
+});
+
+test("mergeThreeWay marks two different inserts at the same line as a conflict", () => {
+	const result = plugin.mergeThreeWay("a\nb", "a\nX\nb", "a\nY\nb");
+
+	assert.equal(result.conflicts, 1);
+	assert.equal(result.content, ["a", ...conflict(["X"], ["Y"]), "b"].join("\n"));
+});
+
+test("mergeThreeWay handles empty files", () => {
+	assert.deepEqual(plugin.mergeThreeWay("", "", "new"), { content: "new", conflicts: 0 });
+	assert.deepEqual(plugin.mergeThreeWay("", "mine", ""), { content: "mine", conflicts: 0 });
+	assert.deepEqual(plugin.mergeThreeWay("a\nb\n", "", "a\nb\n"), { content: "", conflicts: 0 });
+	assert.deepEqual(plugin.mergeThreeWay("", "mine", "theirs"), {
+		content: conflict(["mine"], ["theirs"]).join("\n"),
+		conflicts: 1,
+	});
+});
+
+test("mergeThreeWay keeps a trailing newline added on either side", () => {
+	assert.deepEqual(plugin.mergeThreeWay("a\nb\nc", "a\nb\nc\n", "A\nb\nc"), { content: "A\nb\nc\n", conflicts: 0 });
+	assert.deepEqual(plugin.mergeThreeWay("a\nb\nc\n", "A\nb\nc\n", "a\nb\nc"), { content: "A\nb\nc", conflicts: 0 });
+	assert.deepEqual(plugin.mergeThreeWay("a\nb\n", "a\nB\n", "a\nb\nc\n"), {
+		content: ["a", ...conflict(["B"], ["b", "c"]), ""].join("\n"),
+		conflicts: 1,
+	});
+});
+
+const matches = (pattern, paths) => paths.filter((path) => plugin.globToRegExp(pattern).test(path));
+
+test("globToRegExp keeps * and ? within one path segment", () => {
+	assert.deepEqual(matches("*.md", ["note.md", "Folder/note.md", ".md"]), ["note.md", ".md"]);
+	assert.deepEqual(matches("Folder/*", ["Folder/a.md", "Folder/Sub/a.md", "Folder"]), ["Folder/a.md"]);
+	assert.deepEqual(matches("note?.md", ["note1.md", "note.md", "note/.md"]), ["note1.md"]);
+});
+
+test("globToRegExp lets **/ match any number of folders, including none", () => {
+	const paths = ["a.md", "Folder/a.md", "Folder/Sub/a.md", "b.md"];
+
+	assert.deepEqual(matches("**/a.md", paths), ["a.md", "Folder/a.md", "Folder/Sub/a.md"]);
+	assert.deepEqual(matches("Folder/**/a.md", paths), ["Folder/a.md", "Folder/Sub/a.md"]);
+});
+
+test("globToRegExp lets Folder/** cover the folder and everything below it", () => {
+	const paths = ["Folder", "Folder/a.md", "Folder/Sub/a.md", "Folder2/a.md", "Other/Folder/a.md"];
+
+	assert.deepEqual(matches("Folder/**", paths), ["Folder", "Folder/a.md", "Folder/Sub/a.md"]);
+	assert.deepEqual(matches("**", ["a.md", "Folder/Sub/a.md"]), ["a.md", "Folder/Sub/a.md"]);
+});
+
+test("globToRegExp matches either alternative of a brace set", () => {
+	const paths = ["a.png", "a.jpg", "a.gif", "Drafts/x.md", "Private/x.md", "Public/x.md"];
+
+	assert.deepEqual(matches("*.{png,jpg}", paths), ["a.png", "a.jpg"]);
+	assert.deepEqual(matches("{Drafts,Private}/**", paths), ["Drafts/x.md", "Private/x.md"]);
+});
+
+test("globToRegExp treats regular expression characters literally", () => {
+	assert.deepEqual(matches(".obsidian/**", [".obsidian/app.json", "xobsidian/app.json"]), [".obsidian/app.json"]);
+	assert.deepEqual(matches("Notes (old)/*", ["Notes (old)/a.md", "Notes old/a.md"]), ["Notes (old)/a.md"]);
+	assert.deepEqual(matches("a+b|c^$[x].md", ["a+b|c^$[x].md", "aab.md", "c.md"]), ["a+b|c^$[x].md"]);
+	assert.deepEqual(matches("back\\slash}.md", ["back\\slash}.md"]), ["back\\slash}.md"]);
+});
+
+test("evaluateAccess applies the first matching rule", () => {
+	const rules = [
+		{ id: "public", pattern: "Private/Public/**", access: "readwrite" },
+		{ id: "private", pattern: "Private/**", access: "none" },
+		{ id: "archive", pattern: "/Archive/**/", access: "read" },
+		{ id: "empty", pattern: "", access: "none" },
+	];
+	const decide = (path) => {
+		const { read, write, rule } = plugin.evaluateAccess(rules, path);
+		return { read, write, rule: rule?.id ?? null };
+	};
+
+	assert.deepEqual(decide("Private/Public/a.md"), { read: true, write: true, rule: "public" });
+	assert.deepEqual(decide("Private/a.md"), { read: false, write: false, rule: "private" });
+	assert.deepEqual(decide("/Archive/2024/a.md"), { read: true, write: false, rule: "archive" });
+	assert.deepEqual(decide("Notes/a.md"), { read: true, write: true, rule: null });
+	assert.equal(plugin.evaluateAccess([...rules].reverse(), "Private/Public/a.md").rule?.id, "private");
+});
+
+const noteData = (overrides = {}) => ({
+	sessionId: "session-1",
+	agentName: "Mock agent",
+	agentProfileId: "mock",
+	title: null,
+	createdAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+	updatedAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+	attachments: [],
+	messages: [],
+	toolCalls: {},
+	...overrides,
+});
+
+const resolveVaultPath = (path) => (path.startsWith("/vault/") ? path.slice("/vault/".length) : null);
+
+// The note body after its frontmatter, as the history panel reads it.
+const noteBody = (note) => note.slice(note.indexOf("---\n", 4) + 4);
+
+test("formatConversationNote writes the first prompt where extractFirstPrompt finds it", () => {
+	const note = plugin.formatConversationNote(noteData({
+		messages: [
+			{ id: "1", role: "system", content: "Connected to Mock agent." },
+			{ id: "2", role: "user", content: "Summarize my notes\n\nabout   gardening" },
+			{ id: "3", role: "assistant", content: "Found 3 notes." },
+			{ id: "4", role: "user", content: "Thanks" },
+		],
+	}), resolveVaultPath);
+
+	assert.match(note, /^---\nsession_id: "session-1"\n/);
+	assert.match(note, /\ntitle: "Summarize my notes"\n/);
+	assert.equal(plugin.extractFirstPrompt(noteBody(note)), "Summarize my notes about gardening");
+	assert.equal(plugin.extractFirstPrompt("> [!assistant] Assistant\n> Hello"), "");
+});
+
+test("formatConversationNote keeps system messages in a callout body under a fixed title", () => {
+	const note = plugin.formatConversationNote(noteData({
+		messages: [{ id: "1", role: "system", content: "Connection error:\nagent exited" }],
+	}), resolveVaultPath);
+
+	assert.equal(noteBody(note), "\n> [!info] System\n> Connection error:\n> agent exited\n");
+});
+
+test("formatConversationNote writes tool call diffs as unified hunks", () => {
+	const oldText = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join("\n");
+	const newText = oldText.replace("line 10", "line ten");
+	const note = plugin.formatConversationNote(noteData({
+		messages: [{ id: "1", role: "assistant", content: "", toolCallId: "edit" }],
+		toolCalls: {
+			edit: {
+				toolCallId: "edit",
+				title: "Edit notes",
+				kind: "edit",
+				status: "completed",
+				locations: [],
+				content: [
+					{ type: "diff", path: "/vault/Notes/a.md", oldText, newText },
+					{ type: "diff", path: "/tmp/new.txt", oldText: null, newText: "hello" },
+				],
+			},
+		},
+	}), resolveVaultPath);
+
+	assert.equal(noteBody(note), [
+		"",
+		"> [!tool]- Edit notes (completed)",
+		"> [[Notes/a]]",
+		"> ```diff",
+		"> @@ -7,7 +7,7 @@",
+		">  line 7",
+		">  line 8",
+		">  line 9",
+		"> -line 10",
+		"> +line ten",
+		">  line 11",
+		">  line 12",
+		">  line 13",
+		"> ```",
+		">",
+		"> `/tmp/new.txt`",
+		"> ```diff",
+		"> @@ -0,0 +1,1 @@",
+		"> +hello",
+		"> ```",
+		"",
+	].join("\n"));
+});
+
+test("encodePrompt passes blocks through when the agent accepts them", () => {
+	const blocks = [
+		{ type: "text", text: "Look at these" },
+		{ type: "resource", resource: { uri: "obsidian://vault/a.md", text: "# A" } },
+		{ type: "image", data: "aW1n", mimeType: "image/png" },
+		{ type: "audio", data: "YXVk", mimeType: "audio/wav" },
+	];
+
+	assert.deepEqual(plugin.encodePrompt(blocks, { embeddedContext: true, image: true, audio: true }), blocks);
+});
+
+test("encodePrompt inlines embedded text for agents without embeddedContext", () => {
+	const [note, withFence, binary] = plugin.encodePrompt([
+		{ type: "resource", resource: { uri: "file:///vault/a.md", text: "# A" } },
+		{ type: "resource", resource: { uri: "selection://b.ts#L1-2", text: "```\ncode\n```\n" } },
+		{ type: "resource", resource: { uri: "file:///vault/c.pdf", blob: "cGRm", mimeType: "application/pdf" } },
+	], {});
+
+	assert.deepEqual(note, { type: "text", text: "file:///vault/a.md\n```md\n# A\n```" });
+	assert.deepEqual(withFence, { type: "text", text: "selection://b.ts#L1-2\n````ts\n```\ncode\n```\n````" });
+	assert.deepEqual(binary, {
+		type: "resource_link",
+		uri: "file:///vault/c.pdf",
+		name: "c.pdf",
+		mimeType: "application/pdf",
+	});
+});
+
+test("encodePrompt links or describes media the agent does not accept", () => {
+	const encoded = plugin.encodePrompt([
+		{ type: "image", data: "aW1n", mimeType: "image/png", uri: "obsidian://vault/pic.png" },
+		{ type: "image", data: "aW1n", mimeType: "image/png" },
+		{ type: "audio", data: "YXVk", mimeType: "audio/wav" },
+	], { embeddedContext: true });
+
+	assert.deepEqual(encoded, [
+		{ type: "resource_link", uri: "obsidian://vault/pic.png", name: "pic.png", mimeType: "image/png" },
+		{ type: "text", text: "[image attachment (image/png) omitted: the agent does not accept images]" },
+		{ type: "text", text: "[audio attachment (audio/wav) omitted: the agent does not accept audios]" },
+	]);
+});
+
+test("mergeToolCall starts a card from the first update and fills the gaps", () => {
+	assert.deepEqual(plugin.mergeToolCall(undefined, { toolCallId: "read" }), {
+		toolCallId: "read",
+		title: "Tool read",
+		kind: "other",
+		status: "pending",
+		content: [],
+		locations: [],
+		rawInput: undefined,
+		rawOutput: undefined,
+	});
+});
+
+test("mergeToolCall replaces the fields an update carries and keeps the rest", () => {
+	const started = plugin.mergeToolCall(undefined, {
+		toolCallId: "run",
+		title: "Run tests",
+		kind: "execute",
+		status: "in_progress",
+		content: [{ type: "terminal", terminalId: "term-1" }],
+		locations: [{ path: "/vault/a.md" }],
+		rawInput: { command: "npm test" },
+	});
+	const finished = plugin.mergeToolCall(started, {
+		toolCallId: "run",
+		status: "completed",
+		content: [{ type: "content", content: { type: "text", text: "All passed" } }],
+		rawOutput: { exitCode: 0 },
+	});
+
+	assert.deepEqual(finished, {
+		toolCallId: "run",
+		title: "Run tests",
+		kind: "execute",
+		status: "completed",
+		content: [{ type: "content", content: { type: "text", text: "All passed" } }],
+		locations: [{ path: "/vault/a.md" }],
+		rawInput: { command: "npm test" },
+		rawOutput: { exitCode: 0 },
+	});
+	assert.equal(plugin.mergeToolCall(finished, { toolCallId: "run", rawInput: null }).rawInput, null);
+});
+
+test("matchesToolCallFilter matches status and text in the title, kind or paths", () => {
+	const toolCall = plugin.mergeToolCall(undefined, {
+		toolCallId: "edit",
+		title: "Update garden plan",
+		kind: "edit",
+		status: "failed",
+		locations: [{ path: "/vault/Projects/Garden.md" }],
+	});
+	const matches = (query, status = "all") => plugin.matchesToolCallFilter(toolCall, { query, status });
+
+	assert.equal(matches(""), true);
+	assert.equal(matches("GARDEN PLAN"), true);
+	assert.equal(matches("edit"), true);
+	assert.equal(matches("projects/"), true);
+	assert.equal(matches("search"), false);
+	assert.equal(matches("", "failed"), true);
+	assert.equal(matches("garden", "completed"), false);
+});
+
+test.after(async () => {
+	await rm(workDir, { recursive: true, force: true });
+});
@@ -0,0 +1,127 @@
+import * as acp from "@agentclientprotocol/sdk";
+
+export type AccessLevel = "none" | "read" | "readwrite";
+
+/**
+ * Glob rule for agent file access. Patterns match vault-relative paths:
+ * `*` and `?` stay within one path segment, `**` spans folders, and
+ * `{a,b}` matches either alternative.
+ */
+export type AccessRule = {
+    id: string;
+    pattern: string;
+    access: AccessLevel;
+};
+
+export type AccessDecision = {
+    read: boolean;
+    write: boolean;
+    /** First matching rule, or null when the default (full access) applies. */
+    rule: AccessRule | null;
+};
+
+export type FileOperation = "read" | "write";
+
+export const createAccessRuleId = () =>
+    `rule-${Date.now()}-${Math.random().toString(16).slice(2, 8)}`;
+
+export const createAccessRule = (pattern = "", access: AccessLevel = "none"): AccessRule => ({
+    id: createAccessRuleId(),
+    pattern,
+    access
+});
+
+/** Initial rules: keep agents out of the vault's configuration folder. */
+export const createDefaultAccessRules = (configDir: string): AccessRule[] => [
+    createAccessRule(`${configDir}/**`, "none")
+];
+
+export const normalizeAccessRule = (rule: Partial<AccessRule>): AccessRule => ({
+    id: rule.id || createAccessRuleId(),
+    pattern: typeof rule.pattern === "string" ? rule.pattern.trim() : "",
+    access: rule.access === "read" || rule.access === "readwrite" ? rule.access : "none"
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.+^$(){}|[\]\\]/g, "\\$&");
+
+export const globToRegExp = (pattern: string): RegExp => {
+    let source = "";
+    let index = 0;
+    let braceDepth = 0;
+
+    while (index < pattern.length) {
+        const char = pattern[index]!;
+        if (char === "*") {
+            if (pattern[index + 1] === "*") {
+                const atStart = index === 0 || pattern[index - 1] === "/";
+                if (atStart && pattern[index + 2] === "/") {
+                    // `**/` also matches no folder at all.
+                    source += "(?:.*/)?";
+                    index += 3;
+                    continue;
+                }
+                source += ".*";
+                index += 2;
+                continue;
+            }
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "{") {
+            source += "(?:";
+            braceDepth++;
+        } else if (char === "}" && braceDepth > 0) {
+            source += ")";
+            braceDepth--;
+        } else if (char === "," && braceDepth > 0) {
+            source += "|";
+        } else {
+            source += escapeRegExp(char);
+        }
+        index++;
+    }
+
+    source += ")".repeat(braceDepth);
+    // `Folder/**` covers the folder itself too.
+    if (source.endsWith("/.*")) {
+        source = `${source.slice(0, -3)}(?:/.*)?`;
+    }
+    return new RegExp(`^${source}$`);
+};
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, "");
+
+/**
+ * Checks a vault-relative path against the rules top to bottom; the first
+ * matching rule decides. Paths no rule matches are fully accessible.
+ */
+export const evaluateAccess = (rules: AccessRule[], path: string): AccessDecision => {
+    const target = trimSlashes(path);
+    for (const rule of rules) {
+        const pattern = trimSlashes(rule.pattern);
+        if (!pattern || !globToRegExp(pattern).test(target)) {
+            continue;
+        }
+
+        return { read: rule.access !== "none", write: rule.access === "readwrite", rule };
+    }
+
+    return { read: true, write: true, rule: null };
+};
+
+export const describeAccess = (decision: AccessDecision): string => {
+    const level = decision.write ? "Read and write" : decision.read ? "Read only" : "No access";
+    return decision.rule ? `${level} (rule "${decision.rule.pattern}")` : `${level} (no rule matches)`;
+};
+
+// Application-defined JSON-RPC error code for paths blocked by access rules.
+export const ACCESS_DENIED_ERROR_CODE = -32052;
+
+export const accessDeniedError = (path: string, operation: FileOperation, rule: AccessRule): acp.RequestError =>
+    new acp.RequestError(
+        ACCESS_DENIED_ERROR_CODE,
+        rule.access === "read" && operation === "write"
+            ? `Cannot write ${path}: the file access rule "${rule.pattern}" makes it read-only`
+            : `Cannot ${operation} ${path}: the file access rule "${rule.pattern}" denies access`,
+        { path, operation, pattern: rule.pattern }
+    );
@@ -0,0 +1,27 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+// JSON-RPC code of `RequestError.authRequired`.
+export const AUTH_REQUIRED_ERROR_CODE = -32000;
+
+/**
+ * Asks the user to pick one of the agent's `authMethods`.
+ */
+export type AuthRequest = {
+    agentName: string;
+    methods: acp.AuthMethod[];
+    /** The agent's error message, e.g. "Authentication required: no API key". */
+    message: string;
+};
+
+/** Resolves to the chosen method id, or null when the user cancels. */
+export type AuthHandler = (request: AuthRequest) => Promise<string | null>;
+
+export const isAuthRequiredError = (error: unknown): boolean =>
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === AUTH_REQUIRED_ERROR_CODE;
+
+export const describeAuthError = (error: unknown): string => {
+    const message = typeof error === "object" && error !== null ? (error as { message?: unknown }).message : null;
+    return typeof message === "string" && message ? message : "Authentication required";
+};
@@ -1,42 +1,32 @@
 import * as acp from "@agentclientprotocol/sdk";
 import { App, FileSystemAdapter, Platform, TFile, TFolder, normalizePath } from "obsidian";
-
-type AgentProcess = {
-    pid?: number;
-    stdin?: {
-        write: (chunk: Uint8Array) => void;
-        end: () => void;
-    } | null;
-    stdout?: {
-        on: (event: "data" | "end", listener: (chunk?: Uint8Array) => void) => void;
-    } | null;
-    on: (event: "spawn" | "error" | "exit", listener: (...args: unknown[]) => void) => void;
-    once: (event: "close", listener: () => void) => void;
-    kill: (signal?: string) => void;
-};
-
-type SpawnFn = (
-    command: string,
-    args?: string[],
-    options?: { stdio?: ["pipe", "pipe", "pipe"] }
-) => AgentProcess;
-
-const getSpawn = (): SpawnFn => {
-    const requireFn = (window as unknown as { require?: (id: string) => unknown }).require;
-    if (!requireFn) {
-        throw new Error("Node require is unavailable; ACP is desktop-only.");
-    }
-
-    const childProcess = requireFn("child_process") as { spawn?: SpawnFn };
-    if (!childProcess.spawn) {
-        throw new Error("child_process.spawn is unavailable.");
-    }
-
-    return childProcess.spawn;
-};
+import { AgentProfile, DEFAULT_AGENT_PROFILE, cloneAgentProfile, isSameAgentProfile, quoteShellArg } from "./profiles";
+import { McpServerConfig, toAcpMcpServers } from "./mcp";
+import { AgentProcess, getProcessEnv, getSpawn } from "./process";
+import { DiagnosticLevel, DiagnosticsLog, createLineReader, tapStream } from "./diagnostics";
+import type { TraceRecorder } from "./trace";
+import { WriteConflict, WriteReviewHandler, writeConflictError, writeRejectedError } from "./writeReview";
+import { FileVersionTracker } from "./fileVersions";
+import { encodePrompt } from "./promptEncoding";
+import { AuthHandler, describeAuthError, isAuthRequiredError } from "./auth";
+import { AccessRule, FileOperation, accessDeniedError, evaluateAccess } from "./accessPolicy";
+import { mergeThreeWay } from "./merge";
+import { LiveText, applyTextFormat, detectTextFormat, normalizeText, readLiveText, writeLiveText } from "./editorText";
+import { SavedSession, SessionStore } from "./sessions";
+import { TerminalManager, TerminalOutputListener, TerminalSnapshot } from "./terminals";
 
 export type AcpClientOptions = {
     app: App;
+    profile?: AgentProfile;
+    getMcpServers?: () => McpServerConfig[];
+    sessionStore?: SessionStore;
+    diagnostics?: DiagnosticsLog;
+    /** Hold agent writes for review in the session's view before applying them. */
+    isWriteReviewEnabled?: () => boolean;
+    /** Glob rules limiting which vault paths the agent may read or write. */
+    getAccessRules?: () => AccessRule[];
+    /** Replaces the spawned agent, e.g. with a trace replay. */
+    createStream?: () => acp.Stream;
     onRequestPermission?: (
         params: acp.RequestPermissionRequest
     ) => Promise<acp.RequestPermissionResponse>;
@@ -51,111 +41,215 @@ export type AcpClientOptions = {
     ) => Promise<void> | void;
 };
 
-type PermissionRequestHandler = (
+export type PermissionRequestHandler = (
     params: acp.RequestPermissionRequest
 ) => Promise<acp.RequestPermissionResponse>;
 
+/**
+ * Receives the updates and permission requests of one session.
+ */
+export type SessionRoute = {
+    onSessionUpdate: (params: acp.SessionNotification) => Promise<void> | void;
+    onRequestPermission: PermissionRequestHandler;
+    onReviewWrite?: WriteReviewHandler;
+    onAuthRequired?: AuthHandler;
+    /**
+     * Called once `session/load` succeeds, right before the replayed history
+     * is forwarded, so the view can drop what it showed before.
+     */
+    onReset?: () => void;
+};
+
+export type OpenSessionOptions = {
+    route: SessionRoute;
+    /** Session to resume through `session/load` when the agent supports it. */
+    sessionId?: acp.SessionId | null;
+    /** Resume the most recent saved session that is not already open. */
+    restoreLast?: boolean;
+};
+
+type SessionEntry = {
+    route: SessionRoute;
+    saved: SavedSession | null;
+    /** Modes from `session/new` or `session/load`, kept current by updates. */
+    modes: acp.SessionModeState | null;
+    configOptions: acp.SessionConfigOption[] | null;
+    availableCommands: acp.AvailableCommand[];
+    /** History replayed by `session/load`, held until the load succeeds. */
+    replay: acp.SessionNotification[] | null;
+};
+
+const MAX_PENDING_UPDATES = 500;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Uptime after which a restarted agent counts as healthy again.
+const RECONNECT_STABLE_MS = 30000;
+
+export type ConnectionState =
+    | { status: "idle" }
+    | { status: "spawning" }
+    | { status: "initializing" }
+    | { status: "ready" }
+    | { status: "crashed"; message: string; willReconnect: boolean }
+    | { status: "reconnecting"; attempt: number; maxAttempts: number; delayMs: number };
+
+export type ConnectionStateListener = (state: ConnectionState) => void;
+
+type ExitDetails = {
+    code?: unknown;
+    signal?: unknown;
+    error?: unknown;
+};
+
+const describeExit = ({ code, signal, error }: ExitDetails): string => {
+    if (error instanceof Error) {
+        return `Agent failed: ${error.message}`;
+    }
+
+    if (typeof signal === "string" && signal) {
+        return `Agent exited (signal ${signal})`;
+    }
+
+    if (typeof code === "number") {
+        return `Agent exited (code ${code})`;
+    }
+
+    return "Agent exited";
+};
+
 export default class AcpClient implements acp.Client {
     private app: App;
+    private profile: AgentProfile;
+    private getMcpServers: () => McpServerConfig[];
+    private agentCapabilities: acp.AgentCapabilities | null = null;
+    private authMethods: acp.AuthMethod[] = [];
+    private authPromise: Promise<void> | null = null;
+    private sessionStore: SessionStore | null;
+    private diagnostics: DiagnosticsLog | null;
+    private createStream: (() => acp.Stream) | null;
+    private isWriteReviewEnabled: () => boolean;
+    private getAccessRules: () => AccessRule[];
+    private traceRecorder: TraceRecorder | null = null;
     private onRequestPermission?: AcpClientOptions["onRequestPermission"];
     private onSessionUpdate?: AcpClientOptions["onSessionUpdate"];
     private onExtMethod?: AcpClientOptions["onExtMethod"];
     private onExtNotification?: AcpClientOptions["onExtNotification"];
     private connection: acp.ClientSideConnection | null = null;
+    // Closes the transport under `connection`, e.g. to end a trace replay.
+    private transportController: AbortController | null = null;
     private agentProcess: AgentProcess | null = null;
     private initializationPromise: Promise<acp.InitializeResponse> | null = null;
-    private sessionPromise: Promise<acp.NewSessionResponse> | null = null;
-    private sessionId: acp.SessionId | null = null;
-    private sessionUpdateHandlers = new Set<
-        (params: acp.SessionNotification) => Promise<void> | void
-    >();
-    private permissionRequestHandlers = new Set<PermissionRequestHandler>();
+    private sessions = new Map<acp.SessionId, SessionEntry>();
+    // Updates that arrive before their session is routed, e.g. right after `session/new`.
+    private pendingUpdates = new Map<acp.SessionId, acp.SessionNotification[]>();
+    // The SDK leaves requests pending when the agent dies; these reject them.
+    private pendingRequests = new Set<(error: Error) => void>();
+    private connectionState: ConnectionState = { status: "idle" };
+    private connectionStateListeners = new Set<ConnectionStateListener>();
+    private reconnectAttempt = 0;
+    private reconnectTimer: number | null = null;
+    private stableTimer: number | null = null;
+    private terminals: TerminalManager;
+    private fileVersions = new FileVersionTracker();
 
     constructor(options: AcpClientOptions) {
         this.app = options.app;
+        this.profile = cloneAgentProfile(options.profile ?? DEFAULT_AGENT_PROFILE);
+        this.getMcpServers = options.getMcpServers ?? (() => []);
+        this.sessionStore = options.sessionStore ?? null;
+        this.diagnostics = options.diagnostics ?? null;
+        this.createStream = options.createStream ?? null;
+        this.isWriteReviewEnabled = options.isWriteReviewEnabled ?? (() => false);
+        this.getAccessRules = options.getAccessRules ?? (() => []);
         this.onRequestPermission = options.onRequestPermission;
         this.onSessionUpdate = options.onSessionUpdate;
         this.onExtMethod = options.onExtMethod;
         this.onExtNotification = options.onExtNotification;
+        this.terminals = new TerminalManager({
+            resolveCwd: (cwd) => this.resolveWorkingDirectory(cwd)
+        });
     }
 
-    private resetConnectionState(agentProcess?: AgentProcess) {
-        if (agentProcess && this.agentProcess && agentProcess !== this.agentProcess) {
-            return;
+    private resetConnectionState(reason: Error) {
+        for (const reject of this.pendingRequests) {
+            reject(reason);
         }
-
+        this.pendingRequests.clear();
+        this.clearStableTimer();
+        this.terminals.releaseAll();
         this.agentProcess = null;
+        this.transportController?.abort();
+        this.transportController = null;
         this.connection = null;
         this.initializationPromise = null;
-        this.sessionPromise = null;
-        this.sessionId = null;
+        this.agentCapabilities = null;
+        this.authMethods = [];
+        this.authPromise = null;
+        this.sessions.clear();
+        this.pendingUpdates.clear();
+        this.fileVersions.clear();
     }
 
-    async initialize(): Promise<acp.InitializeResponse> {
-        if (this.initializationPromise) {
-            return this.initializationPromise;
-        }
-
-        if (!this.connection) {
-            let shell = "";
-
-            if (Platform.isLinux || Platform.isMacOS) {
-                shell = Platform.isMacOS ? "/bin/zsh" : "/bin/bash";
-            }
-
-            const spawnCommand = shell || "claude-code-acp";
-            const spawnArgs = shell ? ["-lc", "claude-code-acp"] : [];
-            const spawn = getSpawn();
-            const agentProcess = spawn(spawnCommand, spawnArgs, {
-                stdio: ["pipe", "pipe", "pipe"]
-            });
+    getConnectionState(): ConnectionState {
+        return this.connectionState;
+    }
 
-            this.agentProcess = agentProcess;
+    subscribeConnectionState(listener: ConnectionStateListener): () => void {
+        this.connectionStateListeners.add(listener);
+        return () => {
+            this.connectionStateListeners.delete(listener);
+        };
+    }
 
-            agentProcess.on("spawn", () => {
-                console.debug("ACP process spawned", { pid: agentProcess.pid });
-            });
+    getProfile(): AgentProfile {
+        return cloneAgentProfile(this.profile);
+    }
 
-            agentProcess.on("error", (error) => {
-                console.warn("ACP process error", error);
-                this.resetConnectionState(agentProcess);
-            });
+    /**
+     * Records all traffic of this connection into `recorder` until it is
+     * replaced or cleared.
+     */
+    setTraceRecorder(recorder: TraceRecorder | null): void {
+        this.traceRecorder = recorder;
+    }
 
-            agentProcess.on("exit", (code, signal) => {
-                console.debug("ACP process exit", { code, signal });
-                this.resetConnectionState(agentProcess);
-            });
+    getAgentCapabilities(): acp.AgentCapabilities | null {
+        return this.agentCapabilities;
+    }
 
-            const stdin = agentProcess.stdin;
-            const stdout = agentProcess.stdout;
+    /** Negotiated in `initialize`; empty (baseline content only) before that. */
+    getPromptCapabilities(): acp.PromptCapabilities {
+        return this.agentCapabilities?.promptCapabilities ?? {};
+    }
 
-            if (!stdin || !stdout) {
-                throw new Error("ACP process missing stdio streams.");
-            }
+    /**
+     * Switches the agent profile. A running agent is stopped so the next
+     * `initialize` call respawns it with the new command.
+     */
+    async setProfile(profile: AgentProfile): Promise<void> {
+        if (isSameAgentProfile(this.profile, profile)) {
+            this.profile = cloneAgentProfile(profile);
+            return;
+        }
 
-            const input = new WritableStream<Uint8Array>({
-                write(chunk) {
-                    stdin.write(chunk);
-                },
-                close() {
-                    stdin.end();
-                }
-            });
+        this.profile = cloneAgentProfile(profile);
+        await this.disconnect();
+    }
 
-            const output = new ReadableStream<Uint8Array>({
-                start(controller) {
-                    stdout.on("data", (chunk?: Uint8Array) => {
-                        if (chunk) {
-                            controller.enqueue(chunk);
-                        }
-                    });
-                    stdout.on("end", () => {
-                        controller.close();
-                    });
-                }
-            });
+    async initialize(): Promise<acp.InitializeResponse> {
+        if (this.initializationPromise) {
+            return this.initializationPromise;
+        }
 
-            const stream = acp.ndJsonStream(input, output);
+        if (!this.connection) {
+            const profile = this.profile;
+            const transport = this.createStream ? this.createStream() : this.spawnAgent(profile);
+            this.transportController = new AbortController();
+            const stream = tapStream(transport, (direction, message) => {
+                this.diagnostics?.logProtocol(profile.id, direction, message);
+                this.traceRecorder?.record(direction, message);
+            }, this.transportController.signal);
 
             this.connection = new acp.ClientSideConnection(() => this, stream);
         }
@@ -165,23 +259,51 @@ export default class AcpClient implements acp.Client {
             throw new Error("ACP connection unavailable.");
         }
 
-        this.initializationPromise = connection.initialize({
+        this.setConnectionState({ status: "initializing" });
+        this.initializationPromise = this.track(connection, connection.initialize({
             protocolVersion: acp.PROTOCOL_VERSION,
             clientCapabilities: {
                 fs: {
                     readTextFile: true,
                     writeTextFile: true
+                },
+                terminal: true
+            }
+        }));
+        this.initializationPromise.then(
+            (response) => {
+                this.agentCapabilities = response.agentCapabilities ?? null;
+                this.authMethods = response.authMethods ?? [];
+                this.log("info", `Initialized (protocol version ${response.protocolVersion})`);
+                this.setConnectionState({ status: "ready" });
+                this.scheduleStableReset();
+            },
+            (error) => {
+                this.initializationPromise = null;
+                const message = describeExit({ error });
+                this.log("error", `Initialize failed. ${message}`);
+                if (this.connection === connection) {
+                    this.setConnectionState({ status: "crashed", message, willReconnect: false });
                 }
             }
-        });
-        this.initializationPromise.catch(() => {
-            this.initializationPromise = null;
-        });
+        );
 
         return this.initializationPromise;
     }
 
+    /**
+     * Stops the agent and starts it again. Open sessions are dropped; their
+     * handles resume them on the next `ensureSession`.
+     */
+    async restart(): Promise<acp.InitializeResponse> {
+        await this.disconnect();
+        return this.initialize();
+    }
+
     disconnect(): Promise<void> {
+        this.clearReconnectTimer();
+        this.reconnectAttempt = 0;
+
         if (this.agentProcess) {
             if (this.agentProcess.stdin) {
                 this.agentProcess.stdin.end();
@@ -202,7 +324,8 @@ export default class AcpClient implements acp.Client {
             this.agentProcess = null;
         }
 
-        this.resetConnectionState();
+        this.resetConnectionState(new Error("Agent stopped."));
+        this.setConnectionState({ status: "idle" });
 
         return Promise.resolve();
     }
@@ -210,28 +333,44 @@ export default class AcpClient implements acp.Client {
     async requestPermission(
         params: acp.RequestPermissionRequest
     ): Promise<acp.RequestPermissionResponse> {
-        if (this.onRequestPermission) {
-            return this.onRequestPermission(params);
-        }
-
-        for (const handler of this.permissionRequestHandlers) {
+        const route = this.sessions.get(params.sessionId)?.route;
+        if (route) {
             try {
-                return await handler(params);
+                return await route.onRequestPermission(params);
             } catch (error) {
                 console.warn("Permission request handler error", error);
             }
         }
 
+        if (this.onRequestPermission) {
+            return this.onRequestPermission(params);
+        }
+
         return { outcome: { outcome: "cancelled" } };
     }
 
     async sessionUpdate(params: acp.SessionNotification): Promise<void> {
-        for (const handler of this.sessionUpdateHandlers) {
+        if (params.update.sessionUpdate === "session_info_update" && params.update.title) {
+            await this.touchSavedSession(params.sessionId, { title: params.update.title });
+        }
+
+        const entry = this.sessions.get(params.sessionId);
+        if (entry?.replay) {
+            this.trackSessionState(params);
+            entry.replay.push(params);
+        } else if (entry) {
+            this.trackSessionState(params);
             try {
-                await handler(params);
+                await entry.route.onSessionUpdate(params);
             } catch (error) {
                 console.warn("Session update handler error", error);
             }
+        } else {
+            const pending = this.pendingUpdates.get(params.sessionId) ?? [];
+            if (pending.length < MAX_PENDING_UPDATES) {
+                pending.push(params);
+            }
+            this.pendingUpdates.set(params.sessionId, pending);
         }
 
         if (this.onSessionUpdate) {
@@ -239,71 +378,224 @@ export default class AcpClient implements acp.Client {
         }
     }
 
-    subscribeSessionUpdates(
-        handler: (params: acp.SessionNotification) => Promise<void> | void
-    ): () => void {
-        this.sessionUpdateHandlers.add(handler);
-        return () => {
-            this.sessionUpdateHandlers.delete(handler);
-        };
+    subscribeTerminalOutput(listener: TerminalOutputListener): () => void {
+        return this.terminals.subscribe(listener);
     }
 
-    subscribePermissionRequests(handler: PermissionRequestHandler): () => void {
-        this.permissionRequestHandlers.add(handler);
-        return () => {
-            this.permissionRequestHandlers.delete(handler);
-        };
+    getTerminal(terminalId: string): TerminalSnapshot | null {
+        return this.terminals.get(terminalId);
     }
 
-    async ensureSession(): Promise<acp.SessionId> {
-        await this.initialize();
+    hasSession(sessionId: acp.SessionId): boolean {
+        return this.sessions.has(sessionId);
+    }
 
-        if (this.sessionId) {
-            return this.sessionId;
-        }
+    canLoadSession(): boolean {
+        return !!this.agentCapabilities?.loadSession;
+    }
+
+    /**
+     * Opens a session on this agent connection, resuming a saved one through
+     * `session/load` when requested and supported, otherwise creating a new one.
+     */
+    async openSession(options: OpenSessionOptions): Promise<acp.SessionId> {
+        await this.initialize();
 
         const connection = this.connection;
         if (!connection) {
             throw new Error("ACP connection unavailable.");
         }
 
-        if (!this.sessionPromise) {
-            const cwd = this.getVaultBasePath();
-            if (!cwd) {
-                throw new Error("Vault path is unavailable.");
+        const cwd = this.getVaultBasePath();
+        if (!cwd) {
+            throw new Error("Vault path is unavailable.");
+        }
+
+        const mcpServers = this.buildMcpServers();
+        const canLoad = this.canLoadSession();
+        const candidate = canLoad ? this.findSessionToLoad(options, cwd) : null;
+
+        if (candidate) {
+            // Attach before loading so the replayed history is collected; the
+            // view only sees it once the load succeeds.
+            this.attachSession(candidate.sessionId, options.route, candidate, []);
+            try {
+                const loaded = await this.withAuthentication(options.route, () =>
+                    this.track(connection, connection.loadSession({ sessionId: candidate.sessionId, cwd, mcpServers }))
+                );
+                this.setSessionModes(candidate.sessionId, loaded.modes ?? null);
+                this.setSessionConfigOptions(candidate.sessionId, loaded.configOptions ?? null);
+                await this.forwardReplay(candidate.sessionId);
+                await this.touchSavedSession(candidate.sessionId, {});
+                return candidate.sessionId;
+            } catch (error) {
+                if (isAuthRequiredError(error)) {
+                    // Keep the saved session for when authentication succeeds.
+                    this.sessions.delete(candidate.sessionId);
+                    throw error;
+                }
+                console.warn("ACP session load failed; starting a new session", error);
+                this.sessions.delete(candidate.sessionId);
+                await this.sessionStore?.removeSession(candidate.sessionId);
             }
+        }
 
-            this.sessionPromise = connection.newSession({
+        const response = await this.withAuthentication(options.route, () =>
+            this.track(connection, connection.newSession({ cwd, mcpServers }))
+        );
+        const now = Date.now();
+        const saved: SavedSession | null = canLoad && this.sessionStore
+            ? {
+                sessionId: response.sessionId,
+                agentProfileId: this.profile.id,
                 cwd,
-                mcpServers: []
-            });
+                title: null,
+                createdAt: now,
+                updatedAt: now
+            }
+            : null;
+        this.attachSession(response.sessionId, options.route, saved);
+        this.setSessionModes(response.sessionId, response.modes ?? null);
+        this.setSessionConfigOptions(response.sessionId, response.configOptions ?? null);
+
+        if (saved) {
+            await this.sessionStore!.saveSession(saved);
         }
 
+        await this.applyDefaultMode(response.sessionId);
+
+        return response.sessionId;
+    }
+
+    /**
+     * Runs a session request, and when the agent answers that authentication
+     * is required, authenticates with a method chosen by the user and retries.
+     */
+    private async withAuthentication<T>(route: SessionRoute, request: () => Promise<T>): Promise<T> {
         try {
-            const response = await this.sessionPromise;
-            this.sessionId = response.sessionId;
-            return response.sessionId;
+            return await request();
         } catch (error) {
-            this.sessionPromise = null;
-            throw error;
+            if (!isAuthRequiredError(error)) {
+                throw error;
+            }
+            await this.authenticate(route, error);
+            return request();
+        }
+    }
+
+    /** Panes opening sessions at the same time share one prompt. */
+    private authenticate(route: SessionRoute, cause: unknown): Promise<void> {
+        this.authPromise ??= this.runAuthentication(route, cause).finally(() => {
+            this.authPromise = null;
+        });
+        return this.authPromise;
+    }
+
+    private async runAuthentication(route: SessionRoute, cause: unknown): Promise<void> {
+        const connection = this.connection;
+        if (!connection || this.authMethods.length === 0 || !route.onAuthRequired) {
+            throw cause;
         }
+
+        this.log("info", "Agent requires authentication");
+        const methodId = await route.onAuthRequired({
+            agentName: this.profile.name,
+            methods: this.authMethods,
+            message: describeAuthError(cause)
+        });
+        if (!methodId) {
+            // Cancelling surfaces the agent's original error.
+            throw cause;
+        }
+
+        this.log("info", `Authenticating with method "${methodId}"`);
+        await this.track(connection, connection.authenticate({ methodId }));
+    }
+
+    /**
+     * Stops routing a session and releases its terminals. Saved metadata is
+     * kept so the session can be resumed later.
+     */
+    closeSession(sessionId: acp.SessionId): void {
+        if (!this.sessions.delete(sessionId)) {
+            return;
+        }
+
+        this.pendingUpdates.delete(sessionId);
+        this.fileVersions.forgetSession(sessionId);
+        this.terminals.releaseSession(sessionId);
+        this.connection?.cancel({ sessionId }).catch((error) => {
+            console.debug("ACP cancel on close failed", error);
+        });
     }
 
     async sendPrompt(
+        sessionId: acp.SessionId,
         prompt: string | acp.ContentBlock[]
     ): Promise<acp.PromptResponse> {
-        const sessionId = await this.ensureSession();
-        const blocks: acp.ContentBlock[] =
-            typeof prompt === "string" ? [{ type: "text" as const, text: prompt }] : prompt;
-        return this.connection!.prompt({
-            sessionId,
-            prompt: blocks
+        const connection = this.requireSession(sessionId);
+        void this.touchSavedSession(sessionId, {});
+        const blocks: acp.ContentBlock[] = typeof prompt === "string"
+            ? [{ type: "text" as const, text: prompt }]
+            : encodePrompt(prompt, this.getPromptCapabilities());
+
+        return this.track(connection, connection.prompt({ sessionId, prompt: blocks }));
+    }
+
+    /**
+     * Settles `request` with the agent's answer, or rejects it when the agent
+     * exits or its connection closes first; the SDK would leave it pending.
+     */
+    private track<T>(connection: acp.ClientSideConnection, request: Promise<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const onClose = () => reject(new Error("Agent connection closed."));
+            this.pendingRequests.add(reject);
+            connection.signal.addEventListener("abort", onClose, { once: true });
+            if (connection.signal.aborted) {
+                onClose();
+            }
+            request.then(resolve, reject).finally(() => {
+                this.pendingRequests.delete(reject);
+                connection.signal.removeEventListener("abort", onClose);
+            });
         });
     }
 
-    async cancelPrompt(): Promise<void> {
-        const sessionId = await this.ensureSession();
-        await this.connection!.cancel({ sessionId });
+    getSessionModes(sessionId: acp.SessionId): acp.SessionModeState | null {
+        return this.sessions.get(sessionId)?.modes ?? null;
+    }
+
+    async setSessionMode(sessionId: acp.SessionId, modeId: string): Promise<void> {
+        const connection = this.requireSession(sessionId);
+        await this.track(connection, connection.setSessionMode({ sessionId, modeId }));
+        // Agents need not echo client-initiated changes as `current_mode_update`.
+        const entry = this.sessions.get(sessionId);
+        if (entry?.modes) {
+            entry.modes = { ...entry.modes, currentModeId: modeId };
+        }
+    }
+
+    getAvailableCommands(sessionId: acp.SessionId): acp.AvailableCommand[] {
+        return this.sessions.get(sessionId)?.availableCommands ?? [];
+    }
+
+    getSessionConfigOptions(sessionId: acp.SessionId): acp.SessionConfigOption[] | null {
+        return this.sessions.get(sessionId)?.configOptions ?? null;
+    }
+
+    async setSessionConfigOption(sessionId: acp.SessionId, configId: string, value: string): Promise<void> {
+        const connection = this.requireSession(sessionId);
+        const response = await this.track(
+            connection,
+            connection.unstable_setSessionConfigOption({ sessionId, configId, value })
+        );
+        // The response carries every option, since one change can affect others.
+        this.setSessionConfigOptions(sessionId, response.configOptions);
+    }
+
+    async cancelPrompt(sessionId: acp.SessionId): Promise<void> {
+        const connection = this.requireSession(sessionId);
+        await connection.cancel({ sessionId });
     }
 
     async writeTextFile(
@@ -313,26 +605,89 @@ export default class AcpClient implements acp.Client {
         if (!vaultPath) {
             throw acp.RequestError.invalidParams({ path: params.path }, "Path points to vault root");
         }
+        this.checkAccess(vaultPath, "write");
 
-        await this.ensureParentFolder(vaultPath);
         const existing = this.app.vault.getAbstractFileByPath(vaultPath);
-
-        if (existing instanceof TFile) {
-            await this.app.vault.modify(existing, params.content);
-            return {};
-        }
-
-        if (existing) {
+        if (existing && !(existing instanceof TFile)) {
             throw acp.RequestError.invalidParams(
                 { path: params.path },
                 "Path points to a non-file entry"
             );
         }
 
-        await this.app.vault.create(vaultPath, params.content);
+        // Compare and review in normalized form; the file's own BOM and line
+        // endings are restored on write.
+        const live = existing instanceof TFile ? await readLiveText(this.app, existing) : null;
+        const oldContent = live?.text ?? null;
+        const newContent = normalizeText(params.content);
+        const conflict = this.detectConflict(params.sessionId, vaultPath, live, existing, newContent);
+
+        let content = newContent;
+        if (conflict || this.isWriteReviewEnabled()) {
+            const review = this.sessions.get(params.sessionId)?.route.onReviewWrite;
+            if (!review) {
+                throw conflict
+                    ? writeConflictError(vaultPath)
+                    : writeRejectedError(vaultPath, "no chat pane is open to review it");
+            }
+
+            const decision = await review({
+                sessionId: params.sessionId,
+                path: vaultPath,
+                oldContent,
+                newContent,
+                conflict: conflict ?? undefined
+            });
+            if (decision.outcome === "reject") {
+                throw conflict ? writeConflictError(vaultPath) : writeRejectedError(vaultPath, decision.reason);
+            }
+            content = normalizeText(decision.content ?? newContent);
+        }
+
+        // Look the file up again: it may have been created or removed during review.
+        const current = this.app.vault.getAbstractFileByPath(vaultPath);
+        let mtime: number | null;
+        if (current instanceof TFile) {
+            const format = live?.format ?? detectTextFormat(await this.app.vault.read(current));
+            const inEditor = await writeLiveText(this.app, current, content, format);
+            mtime = inEditor ? null : current.stat.mtime;
+        } else {
+            await this.ensureParentFolder(vaultPath);
+            const created = await this.app.vault.create(
+                vaultPath,
+                applyTextFormat(content, detectTextFormat(params.content))
+            );
+            mtime = created.stat.mtime;
+        }
+
+        // The agent now knows this version; later writes are checked against it.
+        this.fileVersions.record(params.sessionId, vaultPath, content, mtime);
         return {};
     }
 
+    /**
+     * Returns a merge of the user's edits and the agent's write when the file
+     * changed after the agent last read it, otherwise null.
+     */
+    private detectConflict(
+        sessionId: acp.SessionId,
+        vaultPath: string,
+        live: LiveText | null,
+        file: TFile | null,
+        newContent: string
+    ): WriteConflict | null {
+        // An editor buffer can change without touching the mtime.
+        const mtime = live && !live.fromEditor && file ? file.stat.mtime : null;
+        if (!this.fileVersions.hasChanged(sessionId, vaultPath, live?.text ?? null, mtime)) {
+            return null;
+        }
+
+        const baseContent = this.fileVersions.get(sessionId, vaultPath)!.content;
+        const merged = mergeThreeWay(baseContent, live?.text ?? "", newContent);
+        this.log("warn", `Write conflict on ${vaultPath}: file changed since the agent read it`);
+        return { baseContent, mergedContent: merged.content, conflicts: merged.conflicts };
+    }
+
     async readTextFile(
         params: acp.ReadTextFileRequest
     ): Promise<acp.ReadTextFileResponse> {
@@ -340,46 +695,50 @@ export default class AcpClient implements acp.Client {
         if (!vaultPath) {
             throw acp.RequestError.invalidParams({ path: params.path }, "Path points to vault root");
         }
+        this.checkAccess(vaultPath, "read");
 
         const file = this.app.vault.getAbstractFileByPath(vaultPath);
         if (!(file instanceof TFile)) {
             throw acp.RequestError.resourceNotFound(params.path);
         }
 
-        const content = await this.app.vault.read(file);
+        const live = await readLiveText(this.app, file);
+        this.fileVersions.record(params.sessionId, vaultPath, live.text, live.fromEditor ? null : file.stat.mtime);
+        // Served with the file's line endings but without its BOM.
+        const content = this.sliceTextByLine(live.text, params.line, params.limit);
         return {
-            content: this.sliceTextByLine(content, params.line, params.limit),
+            content: live.format.lineEnding === "\n" ? content : content.replace(/\n/g, "\r\n"),
         };
     }
 
     async createTerminal(
-        _params: acp.CreateTerminalRequest
+        params: acp.CreateTerminalRequest
     ): Promise<acp.CreateTerminalResponse> {
-        return this.unsupportedTerminal("terminal/create");
+        return this.terminals.create(params);
     }
 
     async terminalOutput(
-        _params: acp.TerminalOutputRequest
+        params: acp.TerminalOutputRequest
     ): Promise<acp.TerminalOutputResponse> {
-        return this.unsupportedTerminal("terminal/output");
+        return this.terminals.output(params);
     }
 
     async releaseTerminal(
-        _params: acp.ReleaseTerminalRequest
+        params: acp.ReleaseTerminalRequest
     ): Promise<acp.ReleaseTerminalResponse | void> {
-        return this.unsupportedTerminal("terminal/release");
+        return this.terminals.release(params);
     }
 
     async waitForTerminalExit(
-        _params: acp.WaitForTerminalExitRequest
+        params: acp.WaitForTerminalExitRequest
     ): Promise<acp.WaitForTerminalExitResponse> {
-        return this.unsupportedTerminal("terminal/wait_for_exit");
+        return this.terminals.waitForExit(params);
     }
 
     async killTerminal(
-        _params: acp.KillTerminalCommandRequest
+        params: acp.KillTerminalCommandRequest
     ): Promise<acp.KillTerminalCommandResponse | void> {
-        return this.unsupportedTerminal("terminal/kill");
+        return this.terminals.kill(params);
     }
 
     async extMethod(
@@ -402,8 +761,377 @@ export default class AcpClient implements acp.Client {
         }
     }
 
-    private unsupportedTerminal(method: string): never {
-        throw acp.RequestError.methodNotFound(method);
+    private log(level: DiagnosticLevel, message: string): void {
+        this.diagnostics?.add({ level, source: "process", profileId: this.profile.id, message });
+    }
+
+    private setConnectionState(state: ConnectionState): void {
+        this.connectionState = state;
+        for (const listener of this.connectionStateListeners) {
+            try {
+                listener(state);
+            } catch (error) {
+                console.warn("Connection state listener error", error);
+            }
+        }
+    }
+
+    private handleProcessExit(agentProcess: AgentProcess, details: ExitDetails): void {
+        // Exits of processes stopped through `disconnect` are expected.
+        if (agentProcess !== this.agentProcess) {
+            return;
+        }
+
+        const message = describeExit(details);
+        // Keep retrying while a reconnect is in progress, even before sessions reopen.
+        const inUse = this.sessions.size > 0 || this.reconnectAttempt > 0;
+        const willReconnect = inUse && this.reconnectAttempt < MAX_RECONNECT_ATTEMPTS;
+
+        this.resetConnectionState(new Error(`${message}.`));
+        this.setConnectionState({ status: "crashed", message, willReconnect });
+
+        if (willReconnect) {
+            this.scheduleReconnect();
+        }
+    }
+
+    private scheduleReconnect(): void {
+        this.clearReconnectTimer();
+        this.reconnectAttempt += 1;
+        const delayMs = Math.min(
+            RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempt - 1),
+            RECONNECT_MAX_DELAY_MS
+        );
+
+        this.log("warn", `Reconnecting in ${delayMs / 1000}s (attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS})`);
+        this.setConnectionState({
+            status: "reconnecting",
+            attempt: this.reconnectAttempt,
+            maxAttempts: MAX_RECONNECT_ATTEMPTS,
+            delayMs
+        });
+
+        this.reconnectTimer = window.setTimeout(() => {
+            this.reconnectTimer = null;
+            this.initialize().catch((error) => {
+                console.warn("ACP reconnect failed", error);
+            });
+        }, delayMs);
+    }
+
+    private scheduleStableReset(): void {
+        this.clearStableTimer();
+        if (this.reconnectAttempt === 0) {
+            return;
+        }
+
+        this.stableTimer = window.setTimeout(() => {
+            this.stableTimer = null;
+            this.reconnectAttempt = 0;
+        }, RECONNECT_STABLE_MS);
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer !== null) {
+            window.clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private clearStableTimer(): void {
+        if (this.stableTimer !== null) {
+            window.clearTimeout(this.stableTimer);
+            this.stableTimer = null;
+        }
+    }
+
+    private requireSession(sessionId: acp.SessionId): acp.ClientSideConnection {
+        if (!this.connection || !this.sessions.has(sessionId)) {
+            throw new Error("ACP session is not open.");
+        }
+        return this.connection;
+    }
+
+    private findSessionToLoad(options: OpenSessionOptions, cwd: string): SavedSession | null {
+        if (options.sessionId) {
+            if (this.sessions.has(options.sessionId)) {
+                return null;
+            }
+
+            const now = Date.now();
+            return this.sessionStore?.getSession(options.sessionId) ?? {
+                sessionId: options.sessionId,
+                agentProfileId: this.profile.id,
+                cwd,
+                title: null,
+                createdAt: now,
+                updatedAt: now
+            };
+        }
+
+        if (options.restoreLast && this.sessionStore) {
+            return this.sessionStore.getLastSession(
+                this.profile.id,
+                cwd,
+                Array.from(this.sessions.keys())
+            );
+        }
+
+        return null;
+    }
+
+    private attachSession(
+        sessionId: acp.SessionId,
+        route: SessionRoute,
+        saved: SavedSession | null,
+        replay: acp.SessionNotification[] | null = null
+    ): void {
+        this.sessions.set(sessionId, { route, saved, modes: null, configOptions: null, availableCommands: [], replay });
+
+        const pending = this.pendingUpdates.get(sessionId);
+        if (!pending) {
+            return;
+        }
+
+        this.pendingUpdates.delete(sessionId);
+        for (const params of pending) {
+            this.trackSessionState(params);
+            Promise.resolve(route.onSessionUpdate(params)).catch((error) => {
+                console.warn("Session update handler error", error);
+            });
+        }
+    }
+
+    /**
+     * Resets the view and hands it the history `session/load` replayed.
+     * Updates arriving meanwhile queue behind it, keeping their order.
+     */
+    private async forwardReplay(sessionId: acp.SessionId): Promise<void> {
+        const entry = this.sessions.get(sessionId);
+        if (!entry?.replay) {
+            return;
+        }
+
+        entry.route.onReset?.();
+        for (let params = entry.replay.shift(); params; params = entry.replay.shift()) {
+            try {
+                await entry.route.onSessionUpdate(params);
+            } catch (error) {
+                console.warn("Session update handler error", error);
+            }
+        }
+        entry.replay = null;
+    }
+
+    private setSessionModes(sessionId: acp.SessionId, modes: acp.SessionModeState | null): void {
+        const entry = this.sessions.get(sessionId);
+        if (entry) {
+            entry.modes = modes;
+        }
+    }
+
+    /**
+     * Keeps the per-session state that views read on demand in step with
+     * the agent's updates.
+     */
+    private trackSessionState(params: acp.SessionNotification): void {
+        const entry = this.sessions.get(params.sessionId);
+        if (!entry) {
+            return;
+        }
+
+        const update = params.update;
+        switch (update.sessionUpdate) {
+            case "current_mode_update":
+                if (entry.modes) {
+                    entry.modes = { ...entry.modes, currentModeId: update.currentModeId };
+                }
+                break;
+            case "config_option_update":
+                entry.configOptions = update.configOptions;
+                break;
+            case "available_commands_update":
+                entry.availableCommands = update.availableCommands;
+                break;
+            default:
+                break;
+        }
+    }
+
+    private setSessionConfigOptions(sessionId: acp.SessionId, options: acp.SessionConfigOption[] | null): void {
+        const entry = this.sessions.get(sessionId);
+        if (entry) {
+            entry.configOptions = options;
+        }
+    }
+
+    /**
+     * Switches a new session to the profile's preferred mode when the agent
+     * offers it. Resumed sessions keep the mode they had.
+     */
+    private async applyDefaultMode(sessionId: acp.SessionId): Promise<void> {
+        const modes = this.getSessionModes(sessionId);
+        const preferred = this.profile.defaultModeId;
+        if (!modes || !preferred || modes.currentModeId === preferred) {
+            return;
+        }
+        if (!modes.availableModes.some((mode) => mode.id === preferred)) {
+            return;
+        }
+
+        try {
+            await this.setSessionMode(sessionId, preferred);
+        } catch (error) {
+            console.warn("ACP default mode could not be applied", error);
+            this.log("warn", `Could not switch to mode "${preferred}"`);
+        }
+    }
+
+    private async touchSavedSession(
+        sessionId: acp.SessionId,
+        patch: Partial<Pick<SavedSession, "title">>
+    ): Promise<void> {
+        const entry = this.sessions.get(sessionId);
+        if (!this.sessionStore || !entry?.saved) {
+            return;
+        }
+
+        entry.saved = { ...entry.saved, ...patch, updatedAt: Date.now() };
+        try {
+            await this.sessionStore.saveSession(entry.saved);
+        } catch (error) {
+            console.warn("Saving ACP session failed", error);
+        }
+    }
+
+    private buildMcpServers(): acp.McpServer[] {
+        const { servers, skipped } = toAcpMcpServers(
+            this.getMcpServers(),
+            this.profile.id,
+            this.agentCapabilities?.mcpCapabilities
+        );
+
+        if (skipped.length > 0) {
+            console.warn(
+                "Skipped MCP servers the agent cannot use",
+                skipped.map((server) => `${server.name} (${server.transport})`)
+            );
+        }
+
+        return servers;
+    }
+
+    private spawnAgent(profile: AgentProfile): acp.Stream {
+        if (!profile.command.trim()) {
+            throw new Error(`Agent profile "${profile.name}" has no command.`);
+        }
+
+        const { command: spawnCommand, args: spawnArgs } = this.buildSpawnCommand(profile);
+        this.setConnectionState({ status: "spawning" });
+        this.log("info", `Spawning ${[spawnCommand, ...spawnArgs].join(" ")}`);
+        let agentProcess: AgentProcess;
+        try {
+            const spawn = getSpawn();
+            agentProcess = spawn(spawnCommand, spawnArgs, {
+                stdio: ["pipe", "pipe", "pipe"],
+                env: { ...getProcessEnv(), ...profile.env },
+                cwd: this.resolveWorkingDirectory(profile.cwd) ?? undefined
+            });
+        } catch (error) {
+            const message = describeExit({ error });
+            this.log("error", message);
+            this.setConnectionState({ status: "crashed", message, willReconnect: false });
+            throw error;
+        }
+
+        this.agentProcess = agentProcess;
+
+        agentProcess.on("spawn", () => {
+            console.debug("ACP process spawned", { pid: agentProcess.pid, profile: profile.id });
+            this.log("info", `Agent process started (pid ${agentProcess.pid ?? "unknown"})`);
+        });
+
+        agentProcess.on("error", (error) => {
+            console.warn("ACP process error", error);
+            this.log("error", describeExit({ error }));
+            this.handleProcessExit(agentProcess, { error });
+        });
+
+        agentProcess.on("exit", (code, signal) => {
+            console.debug("ACP process exit", { code, signal });
+            this.log(code === 0 ? "info" : "error", describeExit({ code, signal }));
+            this.handleProcessExit(agentProcess, { code, signal });
+        });
+
+        // Agents print startup failures (missing binaries, shell errors) on stderr.
+        const stderrReader = createLineReader((line) => {
+            this.diagnostics?.add({ level: "info", source: "stderr", profileId: profile.id, message: line });
+        });
+        agentProcess.stderr?.on("data", (chunk) => {
+            if (chunk) {
+                stderrReader.push(chunk);
+            }
+        });
+        agentProcess.stderr?.on("end", () => {
+            stderrReader.flush();
+        });
+
+        const stdin = agentProcess.stdin;
+        const stdout = agentProcess.stdout;
+
+        if (!stdin || !stdout) {
+            throw new Error("ACP process missing stdio streams.");
+        }
+
+        const input = new WritableStream<Uint8Array>({
+            write(chunk) {
+                stdin.write(chunk);
+            },
+            close() {
+                stdin.end();
+            }
+        });
+
+        const output = new ReadableStream<Uint8Array>({
+            start(controller) {
+                stdout.on("data", (chunk?: Uint8Array) => {
+                    if (chunk) {
+                        controller.enqueue(chunk);
+                    }
+                });
+                stdout.on("end", () => {
+                    controller.close();
+                });
+            }
+        });
+
+        return acp.ndJsonStream(input, output);
+    }
+
+    private buildSpawnCommand(profile: AgentProfile): { command: string; args: string[] } {
+        if (profile.shellMode === "login" && (Platform.isLinux || Platform.isMacOS)) {
+            const shell = Platform.isMacOS ? "/bin/zsh" : "/bin/bash";
+            const commandLine = [profile.command, ...profile.args.map(quoteShellArg)].join(" ");
+            return { command: shell, args: ["-lc", commandLine] };
+        }
+
+        return { command: profile.command, args: [...profile.args] };
+    }
+
+    private resolveWorkingDirectory(value?: string | null): string | null {
+        const basePath = this.getVaultBasePath();
+        const cwd = value?.trim() ?? "";
+
+        if (!cwd) {
+            return basePath;
+        }
+
+        const normalized = this.normalizeSlashes(cwd);
+        if (this.isAbsolutePath(normalized) || !basePath) {
+            return normalized;
+        }
+
+        return `${this.normalizeSlashes(basePath).replace(/\/+$/, "")}/${normalized}`;
     }
 
     private normalizeSlashes(value: string): string {
@@ -454,6 +1182,14 @@ export default class AcpClient implements acp.Client {
         return this.ensureSafeRelative(normalizePath(relativeFallback));
     }
 
+    private checkAccess(vaultPath: string, operation: FileOperation): void {
+        const decision = evaluateAccess(this.getAccessRules(), vaultPath);
+        if (decision.rule && !decision[operation]) {
+            this.log("warn", `Blocked agent ${operation} of ${vaultPath} (rule "${decision.rule.pattern}")`);
+            throw accessDeniedError(vaultPath, operation, decision.rule);
+        }
+    }
+
     private ensureSafeRelative(path: string): string {
         const segments = path.split("/");
         if (segments.includes("..")) {
@@ -501,7 +1237,7 @@ export default class AcpClient implements acp.Client {
             return content;
         }
 
-        const lines = content.split(/\r?\n/);
+        const lines = content.split("\n");
         const start = (line ?? 1) - 1;
         const end = limit == null ? lines.length : start + limit;
 
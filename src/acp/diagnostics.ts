@@ -0,0 +1,224 @@
+import type * as acp from "@agentclientprotocol/sdk";
+import type { AgentProfile } from "./profiles";
+
+export type DiagnosticLevel = "debug" | "info" | "warn" | "error";
+
+export type DiagnosticSource = "process" | "stderr" | "protocol";
+
+export type DiagnosticEntry = {
+    id: number;
+    timestamp: number;
+    level: DiagnosticLevel;
+    source: DiagnosticSource;
+    profileId: string;
+    message: string;
+    /** Protocol messages only: `out` is client to agent. */
+    direction?: "in" | "out";
+};
+
+export type DiagnosticsListener = () => void;
+
+export type DiagnosticsLogOptions = {
+    isProtocolLoggingEnabled?: () => boolean;
+};
+
+export const DIAGNOSTIC_LEVELS: DiagnosticLevel[] = ["debug", "info", "warn", "error"];
+
+export const MAX_DIAGNOSTIC_ENTRIES = 1000;
+
+// Long protocol payloads (file contents, replayed history) are cut to keep the log usable.
+const MAX_MESSAGE_LENGTH = 4000;
+
+const levelRank = (level: DiagnosticLevel): number => DIAGNOSTIC_LEVELS.indexOf(level);
+
+const truncateMessage = (message: string): string => {
+    if (message.length <= MAX_MESSAGE_LENGTH) {
+        return message;
+    }
+
+    return `${message.slice(0, MAX_MESSAGE_LENGTH)}… (${message.length - MAX_MESSAGE_LENGTH} more characters)`;
+};
+
+/**
+ * In-memory log of agent process events, stderr output and, when enabled,
+ * every JSON-RPC message. Shared by all agent connections.
+ */
+export class DiagnosticsLog {
+    private entries: DiagnosticEntry[] = [];
+    // Copy handed to readers; rebuilt on the first read after a change.
+    private snapshot: DiagnosticEntry[] | null = null;
+    private nextId = 1;
+    private listeners = new Set<DiagnosticsListener>();
+    private isProtocolLoggingEnabled: () => boolean;
+
+    constructor(options: DiagnosticsLogOptions = {}) {
+        this.isProtocolLoggingEnabled = options.isProtocolLoggingEnabled ?? (() => false);
+    }
+
+    /** The entries, oldest first. Each change gives later reads a new array. */
+    getEntries(): DiagnosticEntry[] {
+        this.snapshot ??= this.entries.slice();
+        return this.snapshot;
+    }
+
+    add(entry: Omit<DiagnosticEntry, "id" | "timestamp">): void {
+        const next: DiagnosticEntry = {
+            ...entry,
+            id: this.nextId++,
+            timestamp: Date.now(),
+            message: truncateMessage(entry.message)
+        };
+        this.entries.push(next);
+        if (this.entries.length > MAX_DIAGNOSTIC_ENTRIES) {
+            this.entries.splice(0, this.entries.length - MAX_DIAGNOSTIC_ENTRIES);
+        }
+        this.notify();
+    }
+
+    logProtocol(profileId: string, direction: "in" | "out", message: acp.AnyMessage): void {
+        if (!this.isProtocolLoggingEnabled()) {
+            return;
+        }
+
+        this.add({
+            level: "debug",
+            source: "protocol",
+            profileId,
+            direction,
+            message: JSON.stringify(message)
+        });
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    subscribe(listener: DiagnosticsListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify(): void {
+        this.snapshot = null;
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
+
+export const filterDiagnostics = (
+    entries: DiagnosticEntry[],
+    minLevel: DiagnosticLevel
+): DiagnosticEntry[] => {
+    const minRank = levelRank(minLevel);
+    return entries.filter((entry) => levelRank(entry.level) >= minRank);
+};
+
+export const formatDiagnosticEntry = (entry: DiagnosticEntry): string => {
+    const time = new Date(entry.timestamp).toISOString();
+    const arrow = entry.direction === "out" ? " →" : entry.direction === "in" ? " ←" : "";
+    return `${time} ${entry.level.toUpperCase()} [${entry.profileId}] ${entry.source}${arrow} ${entry.message}`;
+};
+
+export type DiagnosticsReportContext = {
+    pluginVersion: string;
+    platform: string;
+    profiles: AgentProfile[];
+};
+
+/**
+ * Plain-text report for bug reports. Environment variable values are left
+ * out because they often hold credentials.
+ */
+export const formatDiagnosticsReport = (
+    entries: DiagnosticEntry[],
+    context: DiagnosticsReportContext
+): string => {
+    const lines = [
+        "## Agent diagnostics",
+        `Plugin version: ${context.pluginVersion}`,
+        `Platform: ${context.platform}`,
+        "",
+        "### Agent profiles"
+    ];
+
+    for (const profile of context.profiles) {
+        const envNames = Object.keys(profile.env);
+        lines.push(
+            `- ${profile.name} (${profile.id}): ${[profile.command, ...profile.args].join(" ")}`,
+            `  shell: ${profile.shellMode}, cwd: ${profile.cwd || "(vault)"}, env: ${envNames.length > 0 ? envNames.join(", ") : "(none)"}`
+        );
+    }
+
+    lines.push("", "### Log", "```");
+    for (const entry of entries) {
+        lines.push(formatDiagnosticEntry(entry));
+    }
+    lines.push("```");
+
+    return lines.join("\n");
+};
+
+/**
+ * Splits a byte stream into text lines. Call `flush` when the stream ends
+ * to emit a trailing line without a newline.
+ */
+export const createLineReader = (onLine: (line: string) => void) => {
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    return {
+        push(chunk: Uint8Array) {
+            buffer += decoder.decode(chunk, { stream: true });
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() ?? "";
+            for (const line of lines) {
+                if (line.trim()) {
+                    onLine(line);
+                }
+            }
+        },
+        flush() {
+            buffer += decoder.decode();
+            if (buffer.trim()) {
+                onLine(buffer);
+            }
+            buffer = "";
+        }
+    };
+};
+
+/**
+ * Wraps an ACP stream so every message is reported to `onMessage` before it
+ * is sent or handled. Aborting `signal` closes the wrapped stream.
+ */
+export const tapStream = (
+    stream: acp.Stream,
+    onMessage: (direction: "in" | "out", message: acp.AnyMessage) => void,
+    signal?: AbortSignal
+): acp.Stream => {
+    const incoming = new TransformStream<acp.AnyMessage, acp.AnyMessage>({
+        transform(message, controller) {
+            onMessage("in", message);
+            controller.enqueue(message);
+        }
+    });
+
+    const outgoing = new TransformStream<acp.AnyMessage, acp.AnyMessage>({
+        transform(message, controller) {
+            onMessage("out", message);
+            controller.enqueue(message);
+        }
+    });
+
+    // The SDK's reader must see an end rather than an error, which it leaves unhandled.
+    void stream.readable.pipeTo(incoming.writable, { signal, preventAbort: true })
+        .catch(() => incoming.writable.close())
+        .catch(() => undefined);
+    void outgoing.readable.pipeTo(stream.writable, { signal }).catch(() => undefined);
+
+    return { readable: incoming.readable, writable: outgoing.writable };
+};
@@ -0,0 +1,169 @@
+export type DiffLine = {
+    type: "equal" | "add" | "remove";
+    text: string;
+    /** 1-based line numbers; null on the side the line does not exist. */
+    oldLine: number | null;
+    newLine: number | null;
+};
+
+export type DiffHunk = {
+    lines: DiffLine[];
+};
+
+// Beyond this many edits the diff falls back to "remove all, add all".
+const MAX_EDIT_DISTANCE = 2000;
+
+export const splitLines = (text: string): string[] => (text === "" ? [] : text.split(/\r?\n/));
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm), returned
+ * as equal/remove/add operations in order.
+ */
+const diffMiddle = (a: string[], b: string[]): Array<{ type: DiffLine["type"]; text: string }> => {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // Snapshot of v[-d..d] at the start of each round, for backtracking.
+    const trace: Int32Array[] = [];
+    let distance = -1;
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+                ? v[offset + k + 1]!
+                : v[offset + k - 1]! + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                distance = d;
+                break;
+            }
+        }
+        if (distance >= 0) {
+            break;
+        }
+    }
+
+    if (distance < 0) {
+        return [
+            ...a.map((text) => ({ type: "remove" as const, text })),
+            ...b.map((text) => ({ type: "add" as const, text }))
+        ];
+    }
+
+    const ops: Array<{ type: DiffLine["type"]; text: string }> = [];
+    let x = n;
+    let y = m;
+    for (let d = distance; d >= 0; d--) {
+        const snapshot = trace[d]!;
+        const at = (k: number) => snapshot[k + d]!;
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = d === 0 ? 0 : prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push({ type: "equal", text: a[x - 1]! });
+            x--;
+            y--;
+        }
+
+        if (d > 0) {
+            if (x === prevX) {
+                ops.push({ type: "add", text: b[y - 1]! });
+                y--;
+            } else {
+                ops.push({ type: "remove", text: a[x - 1]! });
+                x--;
+            }
+        }
+    }
+
+    return ops.reverse();
+};
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const ops = [
+        ...a.slice(0, prefix).map((text) => ({ type: "equal" as const, text })),
+        ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+        ...a.slice(a.length - suffix).map((text) => ({ type: "equal" as const, text }))
+    ];
+
+    let oldLine = 0;
+    let newLine = 0;
+    return ops.map((op) => {
+        if (op.type !== "add") {
+            oldLine++;
+        }
+        if (op.type !== "remove") {
+            newLine++;
+        }
+        return {
+            ...op,
+            oldLine: op.type === "add" ? null : oldLine,
+            newLine: op.type === "remove" ? null : newLine
+        };
+    });
+};
+
+/**
+ * Groups changed lines with `context` unchanged lines around them. Unchanged
+ * runs between hunks are dropped.
+ */
+export const buildHunks = (lines: DiffLine[], context = 3): DiffHunk[] => {
+    const hunks: DiffHunk[] = [];
+    let current: DiffLine[] | null = null;
+    let lastChange = -Infinity;
+
+    lines.forEach((line, index) => {
+        if (line.type === "equal") {
+            if (current && index - lastChange <= context) {
+                current.push(line);
+            }
+            return;
+        }
+
+        if (!current || index - lastChange > context * 2) {
+            current = lines.slice(Math.max(0, index - context), index);
+            hunks.push({ lines: current });
+        } else {
+            // Bridge the gap back to the previous hunk.
+            const tailStart = lastChange + context + 1;
+            current.push(...lines.slice(tailStart, index));
+        }
+
+        current.push(line);
+        lastChange = index;
+    });
+
+    return hunks;
+};
+
+export const countChanges = (lines: DiffLine[]): { added: number; removed: number } => ({
+    added: lines.filter((line) => line.type === "add").length,
+    removed: lines.filter((line) => line.type === "remove").length
+});
@@ -0,0 +1,100 @@
+import { App, MarkdownView, TFile } from "obsidian";
+
+const BOM = "\uFEFF";
+
+/** On-disk encoding details restored when the agent's text is written back. */
+export type TextFormat = {
+    bom: boolean;
+    lineEnding: "\n" | "\r\n";
+};
+
+/**
+ * Current text of a vault file. `text` has no BOM and uses `\n` line endings,
+ * so buffer and disk content compare equal.
+ */
+export type LiveText = {
+    text: string;
+    format: TextFormat;
+    /** True when the text came from an open editor, possibly unsaved. */
+    fromEditor: boolean;
+};
+
+export const detectTextFormat = (content: string): TextFormat => {
+    const firstBreak = content.indexOf("\n");
+    return {
+        bom: content.startsWith(BOM),
+        lineEnding: firstBreak > 0 && content[firstBreak - 1] === "\r" ? "\r\n" : "\n"
+    };
+};
+
+export const normalizeText = (content: string): string =>
+    (content.startsWith(BOM) ? content.slice(1) : content).replace(/\r\n/g, "\n");
+
+export const applyTextFormat = (text: string, format: TextFormat): string => {
+    const lines = format.lineEnding === "\n" ? text : text.replace(/\n/g, "\r\n");
+    return format.bom ? BOM + lines : lines;
+};
+
+export const findMarkdownView = (app: App, path: string): MarkdownView | null => {
+    for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+        if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) {
+            return leaf.view;
+        }
+    }
+    return null;
+};
+
+/** Reads a file, preferring the buffer of an editor that has it open. */
+export const readLiveText = async (app: App, file: TFile): Promise<LiveText> => {
+    const raw = await app.vault.read(file);
+    const format = detectTextFormat(raw);
+    const view = findMarkdownView(app, file.path);
+    return view
+        ? { text: normalizeText(view.editor.getValue()), format, fromEditor: true }
+        : { text: normalizeText(raw), format, fromEditor: false };
+};
+
+/**
+ * Writes normalized text to a file. An open editor receives the change as a
+ * single transaction limited to the changed range, so the cursor stays put
+ * and undo reverts it; otherwise the file is modified with `format` applied.
+ * Returns true when the text went to an editor.
+ */
+export const writeLiveText = async (app: App, file: TFile, text: string, format: TextFormat): Promise<boolean> => {
+    const view = findMarkdownView(app, file.path);
+    if (!view) {
+        await app.vault.modify(file, applyTextFormat(text, format));
+        return false;
+    }
+
+    const editor = view.editor;
+    const current = editor.getValue();
+    if (current === text) {
+        return true;
+    }
+
+    let start = 0;
+    while (start < current.length && start < text.length && current[start] === text[start]) {
+        start++;
+    }
+    let end = 0;
+    while (
+        end < current.length - start &&
+        end < text.length - start &&
+        current[current.length - 1 - end] === text[text.length - 1 - end]
+    ) {
+        end++;
+    }
+
+    editor.transaction({
+        changes: [
+            {
+                from: editor.offsetToPos(start),
+                to: editor.offsetToPos(current.length - end),
+                text: text.slice(start, text.length - end)
+            }
+        ]
+    });
+    view.requestSave();
+    return true;
+};
@@ -0,0 +1,70 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+/**
+ * A file version served to an agent through `fs/read_text_file`.
+ */
+export type FileVersion = {
+    hash: string;
+    /** Null when the version came from an unsaved editor buffer. */
+    mtime: number | null;
+    /** Full content, kept as the base for three-way merges. */
+    content: string;
+};
+
+/** FNV-1a; only used to tell versions apart, not for security. */
+export const hashContent = (content: string): string => {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < content.length; index++) {
+        hash ^= content.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * Remembers, per session, the last version of each file the agent read or
+ * wrote, so later writes can be checked against edits made in between.
+ */
+export class FileVersionTracker {
+    private versions = new Map<acp.SessionId, Map<string, FileVersion>>();
+
+    get(sessionId: acp.SessionId, path: string): FileVersion | null {
+        return this.versions.get(sessionId)?.get(path) ?? null;
+    }
+
+    record(sessionId: acp.SessionId, path: string, content: string, mtime: number | null): void {
+        let files = this.versions.get(sessionId);
+        if (!files) {
+            files = new Map();
+            this.versions.set(sessionId, files);
+        }
+        files.set(path, { hash: hashContent(content), mtime, content });
+    }
+
+    /**
+     * True when `content` (with modification time `mtime`) differs from the
+     * version the agent last saw. A null `mtime` forces a hash comparison.
+     * Files the agent never read are not tracked.
+     */
+    hasChanged(sessionId: acp.SessionId, path: string, content: string | null, mtime: number | null): boolean {
+        const version = this.get(sessionId, path);
+        if (!version) {
+            return false;
+        }
+        if (content === null) {
+            return true;
+        }
+        if (mtime !== null && mtime === version.mtime) {
+            return false;
+        }
+        return hashContent(content) !== version.hash;
+    }
+
+    forgetSession(sessionId: acp.SessionId): void {
+        this.versions.delete(sessionId);
+    }
+
+    clear(): void {
+        this.versions.clear();
+    }
+}
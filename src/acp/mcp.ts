@@ -0,0 +1,130 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+export type McpTransport = "stdio" | "http" | "sse";
+
+export type McpServerConfig = {
+    id: string;
+    name: string;
+    transport: McpTransport;
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+    url: string;
+    headers: Record<string, string>;
+    enabledAgentProfileIds: string[];
+};
+
+export const createMcpServerId = () =>
+    `mcp-${Date.now()}-${Math.random().toString(16).slice(2, 8)}`;
+
+export const createMcpServerConfig = (): McpServerConfig => ({
+    id: createMcpServerId(),
+    name: "",
+    transport: "stdio",
+    command: "",
+    args: [],
+    env: {},
+    url: "",
+    headers: {},
+    enabledAgentProfileIds: []
+});
+
+/**
+ * Parses `Name: value` lines into HTTP headers; blank lines and `#` comments are ignored.
+ */
+export const parseHeaders = (value: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+
+    for (const line of value.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith("#")) {
+            continue;
+        }
+
+        const separator = trimmed.indexOf(":");
+        if (separator <= 0) {
+            continue;
+        }
+
+        headers[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+    }
+
+    return headers;
+};
+
+export const formatHeaders = (headers: Record<string, string>): string =>
+    Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join("\n");
+
+export const normalizeMcpServerConfig = (config: Partial<McpServerConfig>): McpServerConfig => {
+    const defaults = createMcpServerConfig();
+    const transport = config.transport === "http" || config.transport === "sse"
+        ? config.transport
+        : "stdio";
+
+    return {
+        id: config.id || defaults.id,
+        name: config.name ?? "",
+        transport,
+        command: config.command ?? "",
+        args: Array.isArray(config.args) ? config.args.filter((arg) => typeof arg === "string") : [],
+        env: config.env && typeof config.env === "object" ? { ...config.env } : {},
+        url: config.url ?? "",
+        headers: config.headers && typeof config.headers === "object" ? { ...config.headers } : {},
+        enabledAgentProfileIds: Array.isArray(config.enabledAgentProfileIds)
+            ? config.enabledAgentProfileIds.filter((id) => typeof id === "string")
+            : []
+    };
+};
+
+const toPairs = (record: Record<string, string>) =>
+    Object.entries(record).map(([name, value]) => ({ name, value }));
+
+/**
+ * Converts the servers enabled for `profileId` into `session/new` parameters.
+ * HTTP and SSE servers are only included when the agent advertises support.
+ */
+export const toAcpMcpServers = (
+    configs: McpServerConfig[],
+    profileId: string,
+    capabilities?: acp.McpCapabilities | null
+): { servers: acp.McpServer[]; skipped: McpServerConfig[] } => {
+    const servers: acp.McpServer[] = [];
+    const skipped: McpServerConfig[] = [];
+
+    for (const config of configs) {
+        if (!config.enabledAgentProfileIds.includes(profileId) || !config.name.trim()) {
+            continue;
+        }
+
+        if (config.transport === "stdio") {
+            if (!config.command.trim()) {
+                skipped.push(config);
+                continue;
+            }
+
+            servers.push({
+                name: config.name,
+                command: config.command,
+                args: [...config.args],
+                env: toPairs(config.env)
+            });
+            continue;
+        }
+
+        if (!config.url.trim() || !capabilities?.[config.transport]) {
+            skipped.push(config);
+            continue;
+        }
+
+        servers.push({
+            type: config.transport,
+            name: config.name,
+            url: config.url,
+            headers: toPairs(config.headers)
+        });
+    }
+
+    return { servers, skipped };
+};
@@ -0,0 +1,128 @@
+import { DiffLine, diffLines, splitLines } from "./diff";
+
+type Change = {
+    /** Replaced range of base lines, end exclusive. */
+    start: number;
+    end: number;
+    lines: string[];
+};
+
+export type MergeResult = {
+    content: string;
+    /** Number of regions wrapped in conflict markers. */
+    conflicts: number;
+};
+
+export const CONFLICT_MARKERS = {
+    ours: "<<<<<<< Your changes",
+    separator: "=======",
+    theirs: ">>>>>>> Agent changes"
+};
+
+const toChanges = (diff: DiffLine[]): Change[] => {
+    const changes: Change[] = [];
+    let baseIndex = 0;
+    let current: Change | null = null;
+
+    for (const line of diff) {
+        if (line.type === "equal") {
+            if (current) {
+                changes.push(current);
+                current = null;
+            }
+            baseIndex++;
+            continue;
+        }
+
+        current ??= { start: baseIndex, end: baseIndex, lines: [] };
+        if (line.type === "remove") {
+            current.end++;
+            baseIndex++;
+        } else {
+            current.lines.push(line.text);
+        }
+    }
+
+    if (current) {
+        changes.push(current);
+    }
+    return changes;
+};
+
+const applyChanges = (base: string[], changes: Change[], start: number, end: number): string[] => {
+    const result: string[] = [];
+    let position = start;
+    for (const change of changes) {
+        result.push(...base.slice(position, change.start), ...change.lines);
+        position = change.end;
+    }
+    result.push(...base.slice(position, end));
+    return result;
+};
+
+/**
+ * Line-based three-way merge of `ours` (the user's version) and `theirs`
+ * (the agent's write) against their common `base`. Overlapping or adjacent
+ * edits that differ are kept side by side between conflict markers.
+ */
+export const mergeThreeWay = (base: string, ours: string, theirs: string): MergeResult => {
+    const baseLines = splitLines(base);
+    const ourChanges = toChanges(diffLines(base, ours));
+    const theirChanges = toChanges(diffLines(base, theirs));
+    const result: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let i = 0;
+    let j = 0;
+
+    while (i < ourChanges.length || j < theirChanges.length) {
+        const nextOurs = ourChanges[i];
+        const nextTheirs = theirChanges[j];
+        const first = !nextTheirs || (nextOurs && nextOurs.start <= nextTheirs.start) ? nextOurs! : nextTheirs;
+        const start = first.start;
+        let end = first.end;
+        const clusterOurs: Change[] = [];
+        const clusterTheirs: Change[] = [];
+
+        // Grow the cluster while either side has a change touching it.
+        let grew = true;
+        while (grew) {
+            grew = false;
+            while (i < ourChanges.length && ourChanges[i]!.start <= end) {
+                clusterOurs.push(ourChanges[i]!);
+                end = Math.max(end, ourChanges[i]!.end);
+                i++;
+                grew = true;
+            }
+            while (j < theirChanges.length && theirChanges[j]!.start <= end) {
+                clusterTheirs.push(theirChanges[j]!);
+                end = Math.max(end, theirChanges[j]!.end);
+                j++;
+                grew = true;
+            }
+        }
+
+        result.push(...baseLines.slice(position, start));
+        const oursText = applyChanges(baseLines, clusterOurs, start, end);
+        const theirsText = applyChanges(baseLines, clusterTheirs, start, end);
+
+        if (clusterTheirs.length === 0) {
+            result.push(...oursText);
+        } else if (clusterOurs.length === 0 || oursText.join("\n") === theirsText.join("\n")) {
+            result.push(...theirsText);
+        } else {
+            conflicts++;
+            result.push(
+                CONFLICT_MARKERS.ours,
+                ...oursText,
+                CONFLICT_MARKERS.separator,
+                ...theirsText,
+                CONFLICT_MARKERS.theirs
+            );
+        }
+        position = end;
+    }
+
+    result.push(...baseLines.slice(position));
+    return { content: result.join("\n"), conflicts };
+};
@@ -0,0 +1,83 @@
+export type ProcessReadable = {
+    on: (event: "data" | "end", listener: (chunk?: Uint8Array) => void) => void;
+};
+
+export type AgentProcess = {
+    pid?: number;
+    stdin?: {
+        write: (chunk: Uint8Array) => void;
+        end: () => void;
+    } | null;
+    stdout?: ProcessReadable | null;
+    stderr?: ProcessReadable | null;
+    on: (event: "spawn" | "error" | "exit" | "close", listener: (...args: unknown[]) => void) => void;
+    once: (event: "close", listener: () => void) => void;
+    kill: (signal?: string) => void;
+};
+
+export type SpawnOptions = {
+    stdio?: ["pipe", "pipe", "pipe"];
+    env?: Record<string, string | undefined>;
+    cwd?: string;
+    detached?: boolean;
+};
+
+export type SpawnFn = (
+    command: string,
+    args?: string[],
+    options?: SpawnOptions
+) => AgentProcess;
+
+export const getSpawn = (): SpawnFn => {
+    const requireFn = (window as unknown as { require?: (id: string) => unknown }).require;
+    if (!requireFn) {
+        throw new Error("Node require is unavailable; ACP is desktop-only.");
+    }
+
+    const childProcess = requireFn("child_process") as { spawn?: SpawnFn };
+    if (!childProcess.spawn) {
+        throw new Error("child_process.spawn is unavailable.");
+    }
+
+    return childProcess.spawn;
+};
+
+/**
+ * Path of the running Obsidian binary. With `ELECTRON_RUN_AS_NODE=1` it runs
+ * scripts like `node`, so bundled scripts work without a Node install.
+ */
+export const getExecPath = (): string | null => {
+    const processRef = (window as unknown as { process?: { execPath?: string } }).process;
+    return processRef?.execPath ?? null;
+};
+
+/**
+ * Sends `signal` to the process group led by `child`, so commands it started
+ * stop with it. Needs the child spawned with `detached` on macOS and Linux;
+ * Windows has no process groups and signals the child alone.
+ */
+export const killProcessGroup = (child: AgentProcess, signal: string): void => {
+    const processRef = (window as unknown as {
+        process?: { platform?: string; kill?: (pid: number, signal: string) => void };
+    }).process;
+    if (child.pid && processRef?.kill && processRef.platform !== "win32") {
+        try {
+            processRef.kill(-child.pid, signal);
+        } catch (error) {
+            // ESRCH: every process in the group has already exited.
+            if ((error as { code?: string }).code !== "ESRCH") {
+                throw error;
+            }
+        }
+        return;
+    }
+
+    child.kill(signal);
+};
+
+export const getProcessEnv = (): Record<string, string | undefined> => {
+    const processRef = (window as unknown as {
+        process?: { env?: Record<string, string | undefined> };
+    }).process;
+    return processRef?.env ?? {};
+};
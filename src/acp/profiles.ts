@@ -0,0 +1,153 @@
+export type AgentShellMode = "login" | "direct";
+
+export type AgentProfile = {
+    id: string;
+    name: string;
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+    cwd: string;
+    shellMode: AgentShellMode;
+    /** Session mode selected for new sessions; empty keeps the agent's default. */
+    defaultModeId: string;
+};
+
+export const DEFAULT_AGENT_PROFILE: AgentProfile = {
+    id: "claude-code",
+    name: "Claude Code",
+    command: "claude-code-acp",
+    args: [],
+    env: {},
+    cwd: "",
+    shellMode: "login",
+    defaultModeId: ""
+};
+
+export const createAgentProfileId = () =>
+    `agent-${Date.now()}-${Math.random().toString(16).slice(2, 8)}`;
+
+export const MOCK_AGENT_SCRIPT = "mock-agent.js";
+
+/**
+ * Profile that runs the bundled mock agent with Obsidian's own binary, so it
+ * needs neither Node nor network access. Add `--scenario <file>` to the
+ * arguments to use a custom scenario.
+ */
+export const createMockAgentProfile = (execPath: string, scriptPath: string): AgentProfile => ({
+    id: createAgentProfileId(),
+    name: "Mock agent",
+    command: execPath,
+    args: [scriptPath],
+    env: { ELECTRON_RUN_AS_NODE: "1" },
+    cwd: "",
+    shellMode: "direct",
+    defaultModeId: ""
+});
+
+export const cloneAgentProfile = (profile: AgentProfile): AgentProfile => ({
+    ...profile,
+    args: [...profile.args],
+    env: { ...profile.env }
+});
+
+export const isSameAgentProfile = (left: AgentProfile, right: AgentProfile): boolean =>
+    left.id === right.id &&
+    left.command === right.command &&
+    left.cwd === right.cwd &&
+    left.shellMode === right.shellMode &&
+    left.args.length === right.args.length &&
+    left.args.every((arg, index) => arg === right.args[index]) &&
+    formatEnv(left.env) === formatEnv(right.env);
+
+/**
+ * Splits a command line into arguments, honouring single and double quotes.
+ */
+export const parseArgs = (value: string): string[] => {
+    const args: string[] = [];
+    let current = "";
+    let quote: "'" | "\"" | null = null;
+    let hasToken = false;
+
+    for (const char of value) {
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else {
+                current += char;
+            }
+            continue;
+        }
+
+        if (char === "'" || char === "\"") {
+            quote = char;
+            hasToken = true;
+            continue;
+        }
+
+        if (/\s/.test(char)) {
+            if (hasToken) {
+                args.push(current);
+                current = "";
+                hasToken = false;
+            }
+            continue;
+        }
+
+        current += char;
+        hasToken = true;
+    }
+
+    if (hasToken) {
+        args.push(current);
+    }
+
+    return args;
+};
+
+export const formatArgs = (args: string[]): string =>
+    args.map((arg) => (/[\s'"]/.test(arg) || !arg ? quoteShellArg(arg) : arg)).join(" ");
+
+/**
+ * Parses `KEY=VALUE` lines; blank lines and `#` comments are ignored.
+ */
+export const parseEnv = (value: string): Record<string, string> => {
+    const env: Record<string, string> = {};
+
+    for (const line of value.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith("#")) {
+            continue;
+        }
+
+        const separator = trimmed.indexOf("=");
+        if (separator <= 0) {
+            continue;
+        }
+
+        env[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1);
+    }
+
+    return env;
+};
+
+export const formatEnv = (env: Record<string, string>): string =>
+    Object.entries(env)
+        .map(([key, value]) => `${key}=${value}`)
+        .join("\n");
+
+export const quoteShellArg = (value: string): string =>
+    `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Fills in fields missing from profiles saved by older plugin versions.
+ */
+export const normalizeAgentProfile = (profile: Partial<AgentProfile>): AgentProfile => ({
+    id: profile.id || createAgentProfileId(),
+    name: profile.name || profile.command || "Agent",
+    command: profile.command ?? "",
+    args: Array.isArray(profile.args) ? profile.args.filter((arg) => typeof arg === "string") : [],
+    env: profile.env && typeof profile.env === "object" ? { ...profile.env } : {},
+    cwd: profile.cwd ?? "",
+    shellMode: profile.shellMode === "direct" ? "direct" : "login",
+    defaultModeId: typeof profile.defaultModeId === "string" ? profile.defaultModeId : ""
+});
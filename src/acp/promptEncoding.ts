@@ -0,0 +1,54 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+/**
+ * Wraps text in a Markdown code fence longer than any backtick run inside it.
+ */
+export const fenceText = (text: string, info = ""): string => {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(longestRun + 1);
+    return `${fence}${info}\n${text}${text.endsWith("\n") ? "" : "\n"}${fence}`;
+};
+
+const fenceInfo = (uri: string): string => {
+    const match = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(uri);
+    return match ? match[1]!.toLowerCase() : "";
+};
+
+const describeMedia = (kind: string, block: { mimeType: string; uri?: string | null }): acp.ContentBlock =>
+    block.uri
+        ? { type: "resource_link", uri: block.uri, name: block.uri.split("/").pop() || block.uri, mimeType: block.mimeType }
+        : { type: "text", text: `[${kind} attachment (${block.mimeType}) omitted: the agent does not accept ${kind}s]` };
+
+/**
+ * Rewrites prompt blocks the agent did not advertise in `promptCapabilities`
+ * into baseline ones (text and resource links), which every agent accepts.
+ */
+export const encodePrompt = (
+    blocks: acp.ContentBlock[],
+    capabilities: acp.PromptCapabilities
+): acp.ContentBlock[] =>
+    blocks.map((block): acp.ContentBlock => {
+        switch (block.type) {
+            case "resource": {
+                if (capabilities.embeddedContext) {
+                    return block;
+                }
+                const resource = block.resource;
+                if ("text" in resource) {
+                    return { type: "text", text: `${resource.uri}\n${fenceText(resource.text, fenceInfo(resource.uri))}` };
+                }
+                return {
+                    type: "resource_link",
+                    uri: resource.uri,
+                    name: resource.uri.split("/").pop() || resource.uri,
+                    mimeType: resource.mimeType
+                };
+            }
+            case "image":
+                return capabilities.image ? block : describeMedia("image", block);
+            case "audio":
+                return capabilities.audio ? block : describeMedia("audio", block);
+            default:
+                return block;
+        }
+    });
@@ -0,0 +1,375 @@
+import type * as acp from "@agentclientprotocol/sdk";
+import type AcpClient from "./client";
+import type {
+    ConnectionState,
+    ConnectionStateListener,
+    PermissionRequestHandler,
+    SessionRoute,
+} from "./client";
+import type { AgentProfile } from "./profiles";
+import type { TerminalOutputListener } from "./terminals";
+import type { AuthHandler, AuthRequest } from "./auth";
+import type { WriteReviewDecision, WriteReviewHandler, WriteReviewRequest } from "./writeReview";
+
+type SessionUpdateHandler = (params: acp.SessionNotification) => Promise<void> | void;
+type ModesListener = (modes: acp.SessionModeState | null) => void;
+type ConfigOptionsListener = (options: acp.SessionConfigOption[] | null) => void;
+type CommandsListener = (commands: acp.AvailableCommand[]) => void;
+
+export type AcpSessionOptions = {
+    client: AcpClient;
+    /** Session to resume when this handle first connects. */
+    sessionId?: acp.SessionId | null;
+    /** Resume the most recent saved session when no `sessionId` is given. */
+    restoreLast?: boolean;
+    onSessionIdChange?: (sessionId: acp.SessionId | null) => void;
+    /** Disconnect the client on dispose, for clients private to this handle. */
+    ownsClient?: boolean;
+};
+
+/**
+ * One conversation on an agent connection. Each chat view owns a handle, and
+ * the client routes updates and permission requests to it by session id.
+ */
+export class AcpSession {
+    private client: AcpClient;
+    private sessionId: acp.SessionId | null = null;
+    private preferredSessionId: acp.SessionId | null;
+    private restoreLast: boolean;
+    private ownsClient: boolean;
+    private openPromise: Promise<acp.SessionId> | null = null;
+    private onSessionIdChange?: AcpSessionOptions["onSessionIdChange"];
+    private sessionUpdateHandlers = new Set<SessionUpdateHandler>();
+    private permissionRequestHandlers = new Set<PermissionRequestHandler>();
+    private resetHandlers = new Set<() => void>();
+    private writeReviewHandlers = new Set<WriteReviewHandler>();
+    private authHandlers = new Set<AuthHandler>();
+    private modesListeners = new Set<ModesListener>();
+    private configOptionsListeners = new Set<ConfigOptionsListener>();
+    private commandsListeners = new Set<CommandsListener>();
+    private route: SessionRoute;
+    private unsubscribeConnection: () => void;
+
+    constructor(options: AcpSessionOptions) {
+        this.client = options.client;
+        this.preferredSessionId = options.sessionId ?? null;
+        this.restoreLast = options.restoreLast ?? false;
+        this.ownsClient = options.ownsClient ?? false;
+        this.onSessionIdChange = options.onSessionIdChange;
+        this.route = {
+            onSessionUpdate: (params) => this.dispatchSessionUpdate(params),
+            onRequestPermission: (params) => this.dispatchPermissionRequest(params),
+            onReviewWrite: (request) => this.dispatchWriteReview(request),
+            onAuthRequired: (request) => this.dispatchAuthRequest(request),
+            onReset: () => this.dispatchReset()
+        };
+        // A crash rejects the pending open; the next call must start a new one.
+        this.unsubscribeConnection = this.client.subscribeConnectionState((state) => {
+            if (state.status === "crashed" || state.status === "idle") {
+                this.openPromise = null;
+            }
+        });
+    }
+
+    getProfile(): AgentProfile {
+        return this.client.getProfile();
+    }
+
+    getConnectionState(): ConnectionState {
+        return this.client.getConnectionState();
+    }
+
+    subscribeConnectionState(listener: ConnectionStateListener): () => void {
+        return this.client.subscribeConnectionState(listener);
+    }
+
+    /**
+     * Restarts the agent process shared by every session on this profile.
+     * Call `ensureSession` afterwards to resume the conversation.
+     */
+    async restartAgent(): Promise<void> {
+        await this.client.restart();
+    }
+
+    /** What the agent accepts in prompts; known once the session is open. */
+    getPromptCapabilities(): acp.PromptCapabilities {
+        return this.client.getPromptCapabilities();
+    }
+
+    getSessionId(): acp.SessionId | null {
+        return this.sessionId ?? this.preferredSessionId;
+    }
+
+    async ensureSession(): Promise<acp.SessionId> {
+        if (this.sessionId && this.client.hasSession(this.sessionId)) {
+            return this.sessionId;
+        }
+
+        const openPromise = this.openPromise ?? this.open();
+        this.openPromise = openPromise;
+
+        try {
+            return await openPromise;
+        } finally {
+            if (this.openPromise === openPromise) {
+                this.openPromise = null;
+            }
+        }
+    }
+
+    /**
+     * Leaves the current conversation and starts a fresh session.
+     */
+    async startNewSession(): Promise<acp.SessionId> {
+        this.closeCurrent();
+        this.preferredSessionId = null;
+        this.restoreLast = false;
+        return this.ensureSession();
+    }
+
+    async sendPrompt(prompt: string | acp.ContentBlock[]): Promise<acp.PromptResponse> {
+        const sessionId = await this.ensureSession();
+        return this.client.sendPrompt(sessionId, prompt);
+    }
+
+    /** Modes the agent offers for this session, or null when it has none. */
+    getModes(): acp.SessionModeState | null {
+        return this.sessionId ? this.client.getSessionModes(this.sessionId) : null;
+    }
+
+    async setMode(modeId: string): Promise<void> {
+        const sessionId = await this.ensureSession();
+        await this.client.setSessionMode(sessionId, modeId);
+        this.notifyModes();
+    }
+
+    /**
+     * Notified when the session opens or closes and whenever its mode
+     * changes, from either side.
+     */
+    subscribeModes(listener: ModesListener): () => void {
+        this.modesListeners.add(listener);
+        return () => {
+            this.modesListeners.delete(listener);
+        };
+    }
+
+    /** Session settings such as model or reasoning level, when the agent has any. */
+    getConfigOptions(): acp.SessionConfigOption[] | null {
+        return this.sessionId ? this.client.getSessionConfigOptions(this.sessionId) : null;
+    }
+
+    async setConfigOption(configId: string, value: string): Promise<void> {
+        const sessionId = await this.ensureSession();
+        await this.client.setSessionConfigOption(sessionId, configId, value);
+        this.notifyConfigOptions();
+    }
+
+    subscribeConfigOptions(listener: ConfigOptionsListener): () => void {
+        this.configOptionsListeners.add(listener);
+        return () => {
+            this.configOptionsListeners.delete(listener);
+        };
+    }
+
+    /** Slash commands from the agent's latest `available_commands_update`. */
+    getAvailableCommands(): acp.AvailableCommand[] {
+        return this.sessionId ? this.client.getAvailableCommands(this.sessionId) : [];
+    }
+
+    subscribeAvailableCommands(listener: CommandsListener): () => void {
+        this.commandsListeners.add(listener);
+        return () => {
+            this.commandsListeners.delete(listener);
+        };
+    }
+
+    async cancelPrompt(): Promise<void> {
+        if (this.sessionId && this.client.hasSession(this.sessionId)) {
+            await this.client.cancelPrompt(this.sessionId);
+        }
+    }
+
+    subscribeSessionUpdates(handler: SessionUpdateHandler): () => void {
+        this.sessionUpdateHandlers.add(handler);
+        return () => {
+            this.sessionUpdateHandlers.delete(handler);
+        };
+    }
+
+    subscribePermissionRequests(handler: PermissionRequestHandler): () => void {
+        this.permissionRequestHandlers.add(handler);
+        return () => {
+            this.permissionRequestHandlers.delete(handler);
+        };
+    }
+
+    subscribeWriteReviews(handler: WriteReviewHandler): () => void {
+        this.writeReviewHandlers.add(handler);
+        return () => {
+            this.writeReviewHandlers.delete(handler);
+        };
+    }
+
+    subscribeAuthRequests(handler: AuthHandler): () => void {
+        this.authHandlers.add(handler);
+        return () => {
+            this.authHandlers.delete(handler);
+        };
+    }
+
+    /**
+     * Called once a session is resumed through `session/load`, so the view
+     * can drop its transcript before the agent's replay of it arrives. A
+     * failed load leaves the view as it was.
+     */
+    subscribeReset(handler: () => void): () => void {
+        this.resetHandlers.add(handler);
+        return () => {
+            this.resetHandlers.delete(handler);
+        };
+    }
+
+    subscribeTerminalOutput(listener: TerminalOutputListener): () => void {
+        return this.client.subscribeTerminalOutput((snapshot) => {
+            if (snapshot.sessionId === this.sessionId) {
+                listener(snapshot);
+            }
+        });
+    }
+
+    dispose(): void {
+        this.unsubscribeConnection();
+        this.closeCurrent();
+        this.sessionUpdateHandlers.clear();
+        this.permissionRequestHandlers.clear();
+        this.resetHandlers.clear();
+        this.writeReviewHandlers.clear();
+        this.authHandlers.clear();
+        this.modesListeners.clear();
+        this.configOptionsListeners.clear();
+        this.commandsListeners.clear();
+        if (this.ownsClient) {
+            void this.client.disconnect();
+        }
+    }
+
+    private async open(): Promise<acp.SessionId> {
+        const resumeId = this.sessionId ?? this.preferredSessionId;
+        const sessionId = await this.client.openSession({
+            route: this.route,
+            sessionId: resumeId,
+            restoreLast: this.restoreLast && !resumeId
+        });
+        this.preferredSessionId = null;
+        this.restoreLast = false;
+        this.setSessionId(sessionId);
+        return sessionId;
+    }
+
+    private closeCurrent(): void {
+        if (this.sessionId) {
+            this.client.closeSession(this.sessionId);
+            this.setSessionId(null);
+        }
+    }
+
+    private setSessionId(sessionId: acp.SessionId | null): void {
+        if (this.sessionId === sessionId) {
+            return;
+        }
+
+        this.sessionId = sessionId;
+        this.onSessionIdChange?.(sessionId);
+        this.notifyModes();
+        this.notifyConfigOptions();
+        this.notifyAvailableCommands();
+    }
+
+    private notifyAvailableCommands(): void {
+        const commands = this.getAvailableCommands();
+        for (const listener of this.commandsListeners) {
+            listener(commands);
+        }
+    }
+
+    private notifyConfigOptions(): void {
+        const options = this.getConfigOptions();
+        for (const listener of this.configOptionsListeners) {
+            listener(options);
+        }
+    }
+
+    private notifyModes(): void {
+        const modes = this.getModes();
+        for (const listener of this.modesListeners) {
+            listener(modes);
+        }
+    }
+
+    private async dispatchSessionUpdate(params: acp.SessionNotification): Promise<void> {
+        if (params.update.sessionUpdate === "current_mode_update") {
+            this.notifyModes();
+        } else if (params.update.sessionUpdate === "config_option_update") {
+            this.notifyConfigOptions();
+        } else if (params.update.sessionUpdate === "available_commands_update") {
+            this.notifyAvailableCommands();
+        }
+
+        for (const handler of this.sessionUpdateHandlers) {
+            try {
+                await handler(params);
+            } catch (error) {
+                console.warn("Session update handler error", error);
+            }
+        }
+    }
+
+    private dispatchReset(): void {
+        for (const handler of this.resetHandlers) {
+            try {
+                handler();
+            } catch (error) {
+                console.warn("Session reset handler error", error);
+            }
+        }
+    }
+
+    private async dispatchPermissionRequest(
+        params: acp.RequestPermissionRequest
+    ): Promise<acp.RequestPermissionResponse> {
+        for (const handler of this.permissionRequestHandlers) {
+            try {
+                return await handler(params);
+            } catch (error) {
+                console.warn("Permission request handler error", error);
+            }
+        }
+
+        return { outcome: { outcome: "cancelled" } };
+    }
+
+    private async dispatchWriteReview(request: WriteReviewRequest): Promise<WriteReviewDecision> {
+        for (const handler of this.writeReviewHandlers) {
+            try {
+                return await handler(request);
+            } catch (error) {
+                console.warn("Write review handler error", error);
+            }
+        }
+
+        return { outcome: "reject", reason: "no chat pane is open to review it" };
+    }
+
+    private async dispatchAuthRequest(request: AuthRequest): Promise<string | null> {
+        for (const handler of this.authHandlers) {
+            try {
+                return await handler(request);
+            } catch (error) {
+                console.warn("Auth request handler error", error);
+            }
+        }
+
+        return null;
+    }
+}
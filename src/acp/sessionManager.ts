@@ -0,0 +1,161 @@
+import type { App } from "obsidian";
+import AcpClient from "./client";
+import type { DiagnosticsLog } from "./diagnostics";
+import { AcpSession, AcpSessionOptions } from "./session";
+import type { McpServerConfig } from "./mcp";
+import type { AccessRule } from "./accessPolicy";
+import { AgentProfile, DEFAULT_AGENT_PROFILE, cloneAgentProfile } from "./profiles";
+import type { SessionStore } from "./sessions";
+import { Trace, TraceRecorder, createReplayStream, findLoadedSessionId } from "./trace";
+
+export const REPLAY_PROFILE_ID = "trace-replay";
+
+export type SessionManagerOptions = {
+    app: App;
+    getProfiles: () => AgentProfile[];
+    getMcpServers: () => McpServerConfig[];
+    isWriteReviewEnabled?: () => boolean;
+    getAccessRules?: () => AccessRule[];
+    sessionStore: SessionStore;
+    diagnostics?: DiagnosticsLog;
+};
+
+/**
+ * Owns one agent connection per profile and hands out session handles, so
+ * several chat views can run sessions on the same or different agents.
+ */
+export class SessionManager {
+    private app: App;
+    private getProfiles: SessionManagerOptions["getProfiles"];
+    private getMcpServers: SessionManagerOptions["getMcpServers"];
+    private isWriteReviewEnabled: SessionManagerOptions["isWriteReviewEnabled"];
+    private getAccessRules: SessionManagerOptions["getAccessRules"];
+    private sessionStore: SessionStore;
+    private diagnostics?: DiagnosticsLog;
+    private clients = new Map<string, AcpClient>();
+    private traceRecorder: TraceRecorder | null = null;
+
+    constructor(options: SessionManagerOptions) {
+        this.app = options.app;
+        this.getProfiles = options.getProfiles;
+        this.getMcpServers = options.getMcpServers;
+        this.isWriteReviewEnabled = options.isWriteReviewEnabled;
+        this.getAccessRules = options.getAccessRules;
+        this.sessionStore = options.sessionStore;
+        this.diagnostics = options.diagnostics;
+    }
+
+    getClient(profileId: string): AcpClient {
+        const existing = this.clients.get(profileId);
+        if (existing) {
+            return existing;
+        }
+
+        const profile = this.getProfiles().find((item) => item.id === profileId);
+        if (!profile) {
+            throw new Error(`Unknown agent profile: ${profileId}`);
+        }
+
+        const client = new AcpClient({
+            app: this.app,
+            profile,
+            getMcpServers: this.getMcpServers,
+            isWriteReviewEnabled: this.isWriteReviewEnabled,
+            getAccessRules: this.getAccessRules,
+            sessionStore: this.sessionStore,
+            diagnostics: this.diagnostics
+        });
+        this.clients.set(profileId, client);
+        return client;
+    }
+
+    createSession(
+        profileId: string,
+        options: Omit<AcpSessionOptions, "client"> = {}
+    ): AcpSession {
+        return new AcpSession({ ...options, client: this.getClient(profileId) });
+    }
+
+    /**
+     * Creates a session backed by a recorded trace instead of a running
+     * agent. The replay client is private to the session and never saves
+     * session metadata.
+     */
+    createReplaySession(
+        trace: Trace,
+        name: string,
+        options: Omit<AcpSessionOptions, "client" | "sessionId" | "ownsClient"> = {}
+    ): AcpSession {
+        const client = new AcpClient({
+            app: this.app,
+            profile: {
+                ...cloneAgentProfile(DEFAULT_AGENT_PROFILE),
+                id: REPLAY_PROFILE_ID,
+                name,
+                command: ""
+            },
+            diagnostics: this.diagnostics,
+            createStream: () => createReplayStream(trace)
+        });
+        return new AcpSession({
+            ...options,
+            client,
+            sessionId: findLoadedSessionId(trace),
+            restoreLast: false,
+            ownsClient: true
+        });
+    }
+
+    getTraceRecorder(): TraceRecorder | null {
+        return this.traceRecorder;
+    }
+
+    /**
+     * Starts recording the traffic of a profile's agent. The agent is
+     * restarted so the trace begins with `initialize`; open panes resume
+     * their sessions on the next prompt.
+     */
+    async startTraceRecording(profileId: string): Promise<TraceRecorder> {
+        this.stopTraceRecording();
+        const client = this.getClient(profileId);
+        const recorder = new TraceRecorder(profileId);
+        await client.disconnect();
+        client.setTraceRecorder(recorder);
+        this.traceRecorder = recorder;
+        return recorder;
+    }
+
+    stopTraceRecording(): TraceRecorder | null {
+        const recorder = this.traceRecorder;
+        this.traceRecorder = null;
+        if (recorder) {
+            this.clients.get(recorder.profileId)?.setTraceRecorder(null);
+        }
+        return recorder;
+    }
+
+    /**
+     * Applies edited profiles to running clients and stops the agents of
+     * removed profiles.
+     */
+    async syncProfiles(): Promise<void> {
+        const profiles = this.getProfiles();
+
+        for (const [profileId, client] of this.clients) {
+            const profile = profiles.find((item) => item.id === profileId);
+            if (!profile) {
+                this.clients.delete(profileId);
+                await client.disconnect();
+                continue;
+            }
+
+            await client.setProfile(profile);
+        }
+    }
+
+    async disconnectAll(): Promise<void> {
+        const clients = Array.from(this.clients.values());
+        this.clients.clear();
+        await Promise.all(clients.map((client) => client.disconnect()));
+    }
+}
@@ -0,0 +1,66 @@
+export type SavedSession = {
+    sessionId: string;
+    agentProfileId: string;
+    cwd: string;
+    title: string | null;
+    createdAt: number;
+    updatedAt: number;
+};
+
+export interface SessionStore {
+    getSession(sessionId: string): SavedSession | null;
+    getLastSession(agentProfileId: string, cwd: string, excludeSessionIds?: string[]): SavedSession | null;
+    saveSession(session: SavedSession): Promise<void>;
+    removeSession(sessionId: string): Promise<void>;
+}
+
+export const MAX_SAVED_SESSIONS = 50;
+
+export const normalizeSavedSession = (value: Partial<SavedSession>): SavedSession | null => {
+    if (!value.sessionId || !value.agentProfileId || typeof value.cwd !== "string") {
+        return null;
+    }
+
+    const createdAt = typeof value.createdAt === "number" ? value.createdAt : Date.now();
+    return {
+        sessionId: value.sessionId,
+        agentProfileId: value.agentProfileId,
+        cwd: value.cwd,
+        title: typeof value.title === "string" ? value.title : null,
+        createdAt,
+        updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : createdAt
+    };
+};
+
+export const findLastSession = (
+    sessions: SavedSession[],
+    agentProfileId: string,
+    cwd: string,
+    excludeSessionIds: string[] = []
+): SavedSession | null => {
+    let latest: SavedSession | null = null;
+    for (const session of sessions) {
+        if (
+            session.agentProfileId !== agentProfileId ||
+            session.cwd !== cwd ||
+            excludeSessionIds.includes(session.sessionId)
+        ) {
+            continue;
+        }
+        if (!latest || session.updatedAt > latest.updatedAt) {
+            latest = session;
+        }
+    }
+    return latest;
+};
+
+/**
+ * Inserts or replaces `session`, keeping the most recently updated entries.
+ */
+export const upsertSavedSession = (
+    sessions: SavedSession[],
+    session: SavedSession
+): SavedSession[] =>
+    [session, ...sessions.filter((item) => item.sessionId !== session.sessionId)]
+        .sort((left, right) => right.updatedAt - left.updatedAt)
+        .slice(0, MAX_SAVED_SESSIONS);
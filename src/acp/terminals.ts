@@ -0,0 +1,268 @@
+import * as acp from "@agentclientprotocol/sdk";
+import { Platform } from "obsidian";
+import { AgentProcess, ProcessReadable, getProcessEnv, getSpawn, killProcessGroup } from "./process";
+
+export type TerminalSnapshot = {
+    terminalId: string;
+    sessionId: string;
+    command: string;
+    output: string;
+    truncated: boolean;
+    exitStatus: acp.TerminalExitStatus | null;
+};
+
+export type TerminalOutputListener = (snapshot: TerminalSnapshot) => void;
+
+type TerminalEntry = {
+    snapshot: TerminalSnapshot;
+    process: AgentProcess;
+    outputByteLimit: number | null;
+    exitPromise: Promise<acp.TerminalExitStatus>;
+};
+
+export type TerminalManagerOptions = {
+    resolveCwd: (cwd?: string | null) => string | null;
+};
+
+const encoder = new TextEncoder();
+// How long to wait for output after exit when a background child keeps the pipes open.
+const OUTPUT_DRAIN_TIMEOUT_MS = 1000;
+// How long a killed command gets to exit on SIGTERM before it gets SIGKILL.
+const KILL_TIMEOUT_MS = 2000;
+
+/**
+ * Drops bytes from the start of `output` until it fits into `limit`, keeping
+ * the cut on a UTF-8 character boundary.
+ */
+export const truncateOutput = (output: string, limit: number): { output: string; truncated: boolean } => {
+    const bytes = encoder.encode(output);
+    if (bytes.length <= limit) {
+        return { output, truncated: false };
+    }
+
+    let start = bytes.length - limit;
+    while (start < bytes.length && ((bytes[start] ?? 0) & 0xc0) === 0x80) {
+        start += 1;
+    }
+
+    return { output: new TextDecoder().decode(bytes.slice(start)), truncated: true };
+};
+
+export class TerminalManager {
+    private terminals = new Map<string, TerminalEntry>();
+    private listeners = new Set<TerminalOutputListener>();
+    private resolveCwd: TerminalManagerOptions["resolveCwd"];
+    private nextId = 1;
+
+    constructor(options: TerminalManagerOptions) {
+        this.resolveCwd = options.resolveCwd;
+    }
+
+    subscribe(listener: TerminalOutputListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    get(terminalId: string): TerminalSnapshot | null {
+        const entry = this.terminals.get(terminalId);
+        return entry ? { ...entry.snapshot } : null;
+    }
+
+    create(params: acp.CreateTerminalRequest): acp.CreateTerminalResponse {
+        const terminalId = `term-${Date.now()}-${this.nextId++}`;
+        const args = params.args ?? [];
+        const env: Record<string, string | undefined> = { ...getProcessEnv() };
+        for (const variable of params.env ?? []) {
+            env[variable.name] = variable.value;
+        }
+
+        // The command runs as given, without a shell, in its own process
+        // group so killing the terminal also stops the processes it started.
+        const spawn = getSpawn();
+        const child = spawn(params.command, args, {
+            stdio: ["pipe", "pipe", "pipe"],
+            env,
+            cwd: this.resolveCwd(params.cwd) ?? undefined,
+            detached: !Platform.isWin
+        });
+
+        const limit = params.outputByteLimit == null ? null : Number(params.outputByteLimit);
+        let resolveExit: (status: acp.TerminalExitStatus) => void = () => undefined;
+        const exitPromise = new Promise<acp.TerminalExitStatus>((resolve) => {
+            resolveExit = resolve;
+        });
+
+        const entry: TerminalEntry = {
+            snapshot: {
+                terminalId,
+                sessionId: params.sessionId,
+                command: [params.command, ...args].join(" "),
+                output: "",
+                truncated: false,
+                exitStatus: null
+            },
+            process: child,
+            outputByteLimit: limit != null && Number.isFinite(limit) && limit >= 0 ? limit : null,
+            exitPromise
+        };
+        this.terminals.set(terminalId, entry);
+
+        this.pipeOutput(entry, child.stdout);
+        this.pipeOutput(entry, child.stderr);
+
+        const finish = (status: acp.TerminalExitStatus) => {
+            if (entry.snapshot.exitStatus) {
+                return;
+            }
+            entry.snapshot = { ...entry.snapshot, exitStatus: status };
+            resolveExit(status);
+            this.emit(entry);
+        };
+
+        const toExitStatus = (code: unknown, signal: unknown): acp.TerminalExitStatus => ({
+            exitCode: typeof code === "number" ? code : null,
+            signal: typeof signal === "string" ? signal : null
+        });
+
+        // "close" follows "exit" once stdout and stderr are drained, so output
+        // read after `wait_for_exit` is complete.
+        child.on("close", (code, signal) => {
+            finish(toExitStatus(code, signal));
+        });
+
+        child.on("exit", (code, signal) => {
+            setTimeout(() => finish(toExitStatus(code, signal)), OUTPUT_DRAIN_TIMEOUT_MS);
+        });
+
+        child.on("error", (error) => {
+            console.warn("Terminal process error", error);
+            this.appendOutput(entry, `${error instanceof Error ? error.message : String(error)}\n`);
+            finish({ exitCode: null, signal: null });
+        });
+
+        this.emit(entry);
+        return { terminalId };
+    }
+
+    output(params: acp.TerminalOutputRequest): acp.TerminalOutputResponse {
+        const { snapshot } = this.getEntry(params.terminalId);
+        return {
+            output: snapshot.output,
+            truncated: snapshot.truncated,
+            exitStatus: snapshot.exitStatus
+        };
+    }
+
+    async waitForExit(
+        params: acp.WaitForTerminalExitRequest
+    ): Promise<acp.WaitForTerminalExitResponse> {
+        const entry = this.getEntry(params.terminalId);
+        const status = await entry.exitPromise;
+        return {
+            exitCode: status.exitCode ?? null,
+            signal: status.signal ?? null
+        };
+    }
+
+    kill(params: acp.KillTerminalCommandRequest): acp.KillTerminalCommandResponse {
+        const entry = this.getEntry(params.terminalId);
+        this.killProcess(entry);
+        return {};
+    }
+
+    release(params: acp.ReleaseTerminalRequest): acp.ReleaseTerminalResponse {
+        const entry = this.getEntry(params.terminalId);
+        this.killProcess(entry);
+        this.terminals.delete(params.terminalId);
+        return {};
+    }
+
+    releaseSession(sessionId: string): void {
+        for (const [terminalId, entry] of this.terminals) {
+            if (entry.snapshot.sessionId === sessionId) {
+                this.killProcess(entry);
+                this.terminals.delete(terminalId);
+            }
+        }
+    }
+
+    releaseAll(): void {
+        for (const entry of this.terminals.values()) {
+            this.killProcess(entry);
+        }
+        this.terminals.clear();
+    }
+
+    private getEntry(terminalId: string): TerminalEntry {
+        const entry = this.terminals.get(terminalId);
+        if (!entry) {
+            throw acp.RequestError.resourceNotFound(`terminal:${terminalId}`);
+        }
+        return entry;
+    }
+
+    private killProcess(entry: TerminalEntry): void {
+        if (entry.snapshot.exitStatus) {
+            return;
+        }
+
+        const signal = (name: string) => {
+            try {
+                killProcessGroup(entry.process, name);
+            } catch (error) {
+                console.warn("Terminal kill failed", error);
+            }
+        };
+
+        signal("SIGTERM");
+        // Sent even once the command has exited or been released, for
+        // processes it started that ignore SIGTERM.
+        setTimeout(() => signal("SIGKILL"), KILL_TIMEOUT_MS);
+    }
+
+    private pipeOutput(entry: TerminalEntry, stream?: ProcessReadable | null): void {
+        if (!stream) {
+            return;
+        }
+
+        const decoder = new TextDecoder();
+        stream.on("data", (chunk?: Uint8Array) => {
+            if (chunk) {
+                this.appendOutput(entry, decoder.decode(chunk, { stream: true }));
+            }
+        });
+        stream.on("end", () => {
+            this.appendOutput(entry, decoder.decode());
+        });
+    }
+
+    private appendOutput(entry: TerminalEntry, text: string): void {
+        if (!text) {
+            return;
+        }
+
+        let output = entry.snapshot.output + text;
+        let truncated = entry.snapshot.truncated;
+        if (entry.outputByteLimit != null) {
+            const result = truncateOutput(output, entry.outputByteLimit);
+            output = result.output;
+            truncated = truncated || result.truncated;
+        }
+
+        entry.snapshot = { ...entry.snapshot, output, truncated };
+        this.emit(entry);
+    }
+
+    private emit(entry: TerminalEntry): void {
+        const snapshot = { ...entry.snapshot };
+        for (const listener of this.listeners) {
+            try {
+                listener(snapshot);
+            } catch (error) {
+                console.warn("Terminal output listener error", error);
+            }
+        }
+    }
+}
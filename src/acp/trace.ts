@@ -0,0 +1,270 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+export type TraceDirection = "in" | "out";
+
+export type TraceEvent = {
+    /** Milliseconds since the recording started. */
+    time: number;
+    /** `out` is client to agent, `in` is agent to client. */
+    direction: TraceDirection;
+    message: acp.AnyMessage;
+};
+
+export type TraceHeader = {
+    trace: 1;
+    profileId: string;
+    createdAt: number;
+};
+
+export type Trace = {
+    header: TraceHeader;
+    events: TraceEvent[];
+};
+
+export const TRACE_FILE_EXTENSION = "ndjson";
+
+// Gaps between replayed agent messages are capped so long thinking pauses do not stall a demo.
+const MAX_REPLAY_DELAY_MS = 1000;
+
+// Agent requests the replay forwards to the client. Everything else (file
+// system, terminals) is answered from the trace so replay has no side effects.
+const FORWARDED_AGENT_METHODS = new Set(["session/request_permission"]);
+
+/**
+ * Collects the NDJSON traffic of one agent connection.
+ */
+export class TraceRecorder {
+    private header: TraceHeader;
+    private events: TraceEvent[] = [];
+
+    constructor(profileId: string) {
+        this.header = { trace: 1, profileId, createdAt: Date.now() };
+    }
+
+    get profileId(): string {
+        return this.header.profileId;
+    }
+
+    get size(): number {
+        return this.events.length;
+    }
+
+    record(direction: TraceDirection, message: acp.AnyMessage): void {
+        this.events.push({
+            time: Date.now() - this.header.createdAt,
+            direction,
+            // Copy so later mutations by the SDK do not leak into the trace.
+            message: JSON.parse(JSON.stringify(message)) as acp.AnyMessage
+        });
+    }
+
+    toNdjson(): string {
+        return [this.header, ...this.events].map((line) => JSON.stringify(line)).join("\n") + "\n";
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null;
+
+export const parseTrace = (text: string): Trace => {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+    const [headerLine, ...eventLines] = lines;
+    if (!headerLine) {
+        throw new Error("Trace file is empty.");
+    }
+
+    const header = JSON.parse(headerLine) as unknown;
+    if (!isRecord(header) || header.trace !== 1) {
+        throw new Error("Not an agent trace file.");
+    }
+
+    const events = eventLines.map((line, index) => {
+        const event = JSON.parse(line) as unknown;
+        if (
+            !isRecord(event) ||
+            typeof event.time !== "number" ||
+            (event.direction !== "in" && event.direction !== "out") ||
+            !isRecord(event.message)
+        ) {
+            throw new Error(`Invalid trace event on line ${index + 2}.`);
+        }
+        return event as TraceEvent;
+    });
+
+    return {
+        header: {
+            trace: 1,
+            profileId: typeof header.profileId === "string" ? header.profileId : "unknown",
+            createdAt: typeof header.createdAt === "number" ? header.createdAt : 0
+        },
+        events
+    };
+};
+
+/**
+ * The session a trace resumed through `session/load`, if any, so replay can
+ * issue the same call.
+ */
+export const findLoadedSessionId = (trace: Trace): string | null => {
+    for (const event of trace.events) {
+        const message = event.message;
+        if (event.direction === "out" && "method" in message && message.method === "session/new") {
+            return null;
+        }
+        if (event.direction === "out" && "method" in message && message.method === "session/load") {
+            const params = message.params;
+            return isRecord(params) && typeof params.sessionId === "string" ? params.sessionId : null;
+        }
+    }
+
+    return null;
+};
+
+const hasMethod = (message: acp.AnyMessage): message is acp.AnyMessage & { method: string } =>
+    "method" in message && typeof message.method === "string";
+
+const hasId = (message: acp.AnyMessage): message is acp.AnyMessage & { id: string | number | null } =>
+    "id" in message;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => {
+    window.setTimeout(resolve, ms);
+});
+
+/**
+ * Plays a recorded trace back as an agent. Agent messages are emitted in
+ * order; the replay pauses at each recorded client request until the client
+ * sends a request with the same method, and rewrites response ids to match.
+ * Client requests the trace does not contain are answered with an error.
+ */
+export const createReplayStream = (trace: Trace): acp.Stream => {
+    const clientMessages: acp.AnyMessage[] = [];
+    let wakeUp: (() => void) | null = null;
+    // Recorded client request id -> id used by the live client.
+    const requestIds = new Map<string | number | null, string | number | null>();
+    // Agent requests answered from the trace rather than by the client.
+    const answeredIds = new Set<string | number | null>();
+    let emit: (message: acp.AnyMessage) => void = () => undefined;
+    let ended = false;
+    // Set once the client closes the stream; stops the replay.
+    let disposed = false;
+
+    const wake = () => {
+        const resolve = wakeUp;
+        wakeUp = null;
+        resolve?.();
+    };
+
+    const dispose = () => {
+        disposed = true;
+        wake();
+    };
+
+    const rejectUnexpected = (message: acp.AnyMessage) => {
+        if (hasMethod(message) && hasId(message)) {
+            emit({
+                jsonrpc: "2.0",
+                id: message.id,
+                error: {
+                    code: -32603,
+                    message: ended
+                        ? "Replay trace has ended."
+                        : `Replay trace has no ${message.method} request here.`
+                }
+            });
+        }
+    };
+
+    /** The next message from the client, or null once the stream is closed. */
+    const nextClientMessage = async (): Promise<acp.AnyMessage | null> => {
+        while (clientMessages.length === 0 && !disposed) {
+            await new Promise<void>((resolve) => {
+                wakeUp = resolve;
+            });
+        }
+        return disposed ? null : clientMessages.shift()!;
+    };
+
+    /** Waits for the client's side of `expected`; false once the stream is closed. */
+    const waitFor = async (expected: acp.AnyMessage): Promise<boolean> => {
+        for (let message = await nextClientMessage(); message; message = await nextClientMessage()) {
+            if (hasMethod(expected)) {
+                if (hasMethod(message) && message.method === expected.method) {
+                    if (hasId(expected) && hasId(message)) {
+                        requestIds.set(expected.id, message.id);
+                    }
+                    return true;
+                }
+            } else if (!hasMethod(message) && hasId(expected) && hasId(message) && message.id === expected.id) {
+                return true;
+            }
+            rejectUnexpected(message);
+        }
+        return false;
+    };
+
+    const play = async () => {
+        let lastTime = 0;
+        for (const event of trace.events) {
+            const message = event.message;
+            if (event.direction === "out") {
+                // Notifications (e.g. cancel) and answers to agent requests
+                // replay handled itself are not awaited.
+                if (hasMethod(message) && !hasId(message)) {
+                    continue;
+                }
+                if (!hasMethod(message) && hasId(message) && answeredIds.has(message.id)) {
+                    continue;
+                }
+                if (!(await waitFor(message))) {
+                    return;
+                }
+                lastTime = event.time;
+                continue;
+            }
+
+            await sleep(Math.min(Math.max(event.time - lastTime, 0), MAX_REPLAY_DELAY_MS));
+            if (disposed) {
+                return;
+            }
+            lastTime = event.time;
+
+            if (hasMethod(message) && hasId(message) && !FORWARDED_AGENT_METHODS.has(message.method)) {
+                answeredIds.add(message.id);
+                continue;
+            }
+
+            if (!hasMethod(message) && hasId(message) && requestIds.has(message.id)) {
+                emit({ ...message, id: requestIds.get(message.id)! } as acp.AnyMessage);
+                continue;
+            }
+
+            emit(message);
+        }
+
+        ended = true;
+        for (let message = await nextClientMessage(); message; message = await nextClientMessage()) {
+            rejectUnexpected(message);
+        }
+    };
+
+    const readable = new ReadableStream<acp.AnyMessage>({
+        start(controller) {
+            emit = (message) => controller.enqueue(message);
+            play().catch((error) => {
+                console.warn("Trace replay failed", error);
+            });
+        },
+        cancel: dispose
+    });
+
+    const writable = new WritableStream<acp.AnyMessage>({
+        write(message) {
+            clientMessages.push(message);
+            wake();
+        },
+        close: dispose,
+        abort: dispose
+    });
+
+    return { readable, writable };
+};
@@ -0,0 +1,50 @@
+import * as acp from "@agentclientprotocol/sdk";
+
+/**
+ * A pending `fs/write_text_file` call held for the user to review.
+ */
+export type WriteReviewRequest = {
+    sessionId: acp.SessionId;
+    /** Vault-relative path. */
+    path: string;
+    /** Current file content, or null when the write creates the file. */
+    oldContent: string | null;
+    newContent: string;
+    /** Set when the file changed after the agent last read it. */
+    conflict?: WriteConflict;
+};
+
+/**
+ * Three-way merge of the user's edits (`oldContent`) and the agent's write
+ * (`newContent`) against the version the agent read.
+ */
+export type WriteConflict = {
+    baseContent: string;
+    mergedContent: string;
+    /** Regions of `mergedContent` left between conflict markers. */
+    conflicts: number;
+};
+
+export type WriteReviewDecision =
+    | { outcome: "accept"; /** Replaces the agent's content when edited before applying. */ content?: string }
+    | { outcome: "reject"; reason?: string };
+
+export type WriteReviewHandler = (request: WriteReviewRequest) => Promise<WriteReviewDecision>;
+
+// Application-defined JSON-RPC error codes for writes that were not applied.
+export const WRITE_REJECTED_ERROR_CODE = -32050;
+export const WRITE_CONFLICT_ERROR_CODE = -32051;
+
+export const writeRejectedError = (path: string, reason?: string): acp.RequestError =>
+    new acp.RequestError(
+        WRITE_REJECTED_ERROR_CODE,
+        reason ? `Write to ${path} rejected by the user: ${reason}` : `Write to ${path} rejected by the user`,
+        { path }
+    );
+
+export const writeConflictError = (path: string): acp.RequestError =>
+    new acp.RequestError(
+        WRITE_CONFLICT_ERROR_CODE,
+        `Write to ${path} not applied: the file changed after it was last read. Read it again and retry.`,
+        { path }
+    );
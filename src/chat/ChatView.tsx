@@ -1,21 +1,35 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { KeyboardEvent } from "react";
+import type { ConnectionState } from "acp/client";
 import type {
+    ImageContent,
     SessionNotification,
     PermissionOption,
 } from "@agentclientprotocol/sdk";
+import { base64ToArrayBuffer, moment } from "obsidian";
+import type { ConversationSummary } from "conversationNotes";
 import type { ChatViewProps } from "./types";
 import { useMessages } from "./hooks";
 import { usePermissions } from "./hooks";
 import { useAttachments } from "./hooks";
 import { useDragDrop } from "./hooks";
 import { useSelectedText } from "./hooks";
+import { useTerminals } from "./hooks";
+import { useWriteReviews } from "./hooks";
+import { useAuthentication } from "./hooks";
+import { useSessionModes } from "./hooks";
+import { useConfigOptions } from "./hooks";
+import { useAvailableCommands } from "./hooks";
+import { usePlan } from "./hooks";
+import { useToolCalls } from "./hooks";
+import { useConversationNote } from "./hooks";
+import { useConversationHistory } from "./hooks";
 
 import {
-    describeToolCall,
     contentToText,
     formatError,
-    isPromptParamError,
+    getMediaExtension,
+    toVaultRelativePath,
 } from "./utils";
 
 import { ChatHeader } from "./components";
@@ -23,11 +37,50 @@ import { ChatMessages } from "./components";
 import { PermissionPrompt } from "./components";
 import { ChatInput } from "./components";
 import { ChatError } from "./components";
+import { WriteReviewCard } from "./components";
+import { PlanPanel } from "./components";
+import { HistoryPanel } from "./components";
 
-export const ChatView = ({ client, app }: ChatViewProps) => {
-    const { messages, appendMessage, appendAssistantText, resetActiveAssistant } = useMessages();
+export const ChatView = ({
+    session,
+    app,
+    agentProfiles,
+    activeAgentProfileId,
+    onAgentProfileChange,
+    onDefaultModeChange,
+    thoughtDisplay,
+    conversationFolder,
+    autoSaveConversations,
+    onConversationSaverChange,
+    onOpenConversation,
+}: ChatViewProps) => {
+    const {
+        messages,
+        appendMessage,
+        appendAssistantText,
+        appendUserText,
+        appendThoughtText,
+        appendContentBlock,
+        appendToolCall,
+        clearMessages,
+        resetActiveAssistant,
+        finishThinking,
+    } = useMessages();
+    const { terminals } = useTerminals({ session });
+    const { toolCalls, clearToolCalls } = useToolCalls({ session });
+    const { planHistory, clearPlan } = usePlan({ session });
     const { activePermission, pendingPermissionCount, handlePermissionSelect, handlePermissionCancel } =
-        usePermissions({ client, onMessage: appendMessage });
+        usePermissions({ session, onMessage: appendMessage });
+    const { activeWriteReview, pendingWriteReviewCount, handleWriteAccept, handleWriteReject } =
+        useWriteReviews({ session, onMessage: appendMessage });
+    useAuthentication({ app, session, onMessage: appendMessage });
+    const { modes, handleModeChange } = useSessionModes({
+        session,
+        onMessage: appendMessage,
+        onDefaultModeChange
+    });
+    const { configOptions, handleConfigOptionChange } = useConfigOptions({ session, onMessage: appendMessage });
+    const { commands } = useAvailableCommands({ session });
     const { currentSelection, clearSelection } = useSelectedText({ app });
     const {
         attachments,
@@ -53,9 +106,78 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
     const [status, setStatus] = useState<"connecting" | "ready" | "error">("connecting");
     const [isSending, setIsSending] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [connectionState, setConnectionState] = useState<ConnectionState>(() =>
+        session.getConnectionState()
+    );
     const scrollAnchorRef = useRef<HTMLDivElement | null>(null);
     const inputRef = useRef<HTMLTextAreaElement | null>(null);
 
+    const resolveVaultPath = useCallback((path: string) => {
+        const vaultPath = toVaultRelativePath(app, path);
+        return vaultPath && app.vault.getFileByPath(vaultPath) ? vaultPath : null;
+    }, [app]);
+
+    const { saveConversation, addAttachedPaths } = useConversationNote({
+        app,
+        session,
+        messages,
+        toolCalls,
+        isSending,
+        folder: conversationFolder,
+        autoSave: autoSaveConversations,
+        resolveVaultPath,
+        onMessage: appendMessage
+    });
+
+    useEffect(() => {
+        onConversationSaverChange?.(saveConversation);
+        return () => {
+            onConversationSaverChange?.(null);
+        };
+    }, [onConversationSaverChange, saveConversation]);
+
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const {
+        conversations,
+        isLoading: isHistoryLoading,
+        error: historyError,
+        renameConversation,
+        duplicateConversation,
+        deleteConversation
+    } = useConversationHistory({ app, folder: conversationFolder, enabled: isHistoryOpen });
+
+    useEffect(() => {
+        // Permission and write prompts live in the transcript; show it when one arrives.
+        if (activePermission || activeWriteReview) {
+            setIsHistoryOpen(false);
+        }
+    }, [activePermission, activeWriteReview]);
+
+    const handleToggleHistory = useCallback(() => {
+        setIsHistoryOpen((prev) => !prev);
+    }, []);
+
+    const handleCloseHistory = useCallback(() => {
+        setIsHistoryOpen(false);
+    }, []);
+
+    const handleOpenConversation = useCallback((conversation: ConversationSummary) => {
+        setIsHistoryOpen(false);
+        onOpenConversation?.(conversation);
+    }, [onOpenConversation]);
+
+    const handleRenameConversation = useCallback((conversation: ConversationSummary, title: string) => {
+        void renameConversation(conversation, title);
+    }, [renameConversation]);
+
+    const handleDuplicateConversation = useCallback((conversation: ConversationSummary) => {
+        void duplicateConversation(conversation);
+    }, [duplicateConversation]);
+
+    const handleDeleteConversation = useCallback((conversation: ConversationSummary) => {
+        void deleteConversation(conversation);
+    }, [deleteConversation]);
+
     const handleSend = useCallback(async () => {
         const trimmed = input.trim();
         if ((!trimmed && attachments.length === 0) || isSending) {
@@ -63,21 +185,25 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
         }
 
         setError(null);
-        resetActiveAssistant();
-        if (trimmed) {
-            appendMessage("user", trimmed);
-        } else {
-            const summary = attachments
-                .filter((item) => item.kind !== "selection")
-                .map((item) => item.name)
-                .join(", ");
-            appendMessage("user", `Attached: ${summary}`);
-        }
         setIsSending(true);
 
         try {
-            const prompt = await buildPromptBlocks(trimmed, attachments);
-            await client.sendPrompt(prompt);
+            // Reopening a dropped session may replay the transcript, so do it
+            // before echoing the new prompt.
+            await session.ensureSession();
+            resetActiveAssistant();
+            if (trimmed) {
+                appendMessage("user", trimmed);
+            } else {
+                const summary = attachments
+                    .filter((item) => item.kind !== "selection")
+                    .map((item) => item.name)
+                    .join(", ");
+                appendMessage("user", `Attached: ${summary}`);
+            }
+            addAttachedPaths(attachments.map((item) => (item.kind === "selection" ? item.filePath : item.path)));
+            const prompt = await buildPromptBlocks(trimmed, attachments, session.getPromptCapabilities());
+            await session.sendPrompt(prompt);
             setInput("");
             inputRef.current?.focus();
 
@@ -87,16 +213,121 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
         } catch (err) {
             setInput(trimmed);
             const message = formatError(err);
-            if (isPromptParamError(err) || message.includes("prompt parameter")) {
-                console.warn("Prompt parameter error", err);
-                return;
-            }
             setError(message);
             appendMessage("system", `Prompt error: ${message}`);
         } finally {
+            finishThinking();
             setIsSending(false);
         }
-    }, [input, attachments, isSending, appendMessage, buildPromptBlocks, client, resetActiveAssistant, currentSelection, app]);
+    }, [input, attachments, isSending, appendMessage, buildPromptBlocks, session, resetActiveAssistant, finishThinking, addAttachedPaths, currentSelection, app]);
+
+    const handleNewChat = useCallback(async () => {
+        if (isSending) {
+            return;
+        }
+
+        clearMessages();
+        clearToolCalls();
+        clearPlan();
+        setError(null);
+        setStatus("connecting");
+        try {
+            await session.startNewSession();
+            setStatus("ready");
+        } catch (err) {
+            const message = formatError(err);
+            setStatus("error");
+            setError(message);
+            appendMessage("system", `Connection error: ${message}`);
+        }
+    }, [appendMessage, clearMessages, clearToolCalls, clearPlan, session, isSending]);
+
+    const handleNewChatClick = useCallback(() => {
+        void handleNewChat();
+    }, [handleNewChat]);
+
+    const resumeSession = useCallback(async () => {
+        const previousSessionId = session.getSessionId();
+        setStatus("connecting");
+        setError(null);
+        try {
+            const sessionId = await session.ensureSession();
+            // Thoughts replayed by a resumed session are complete.
+            finishThinking();
+            setStatus("ready");
+            if (previousSessionId && sessionId !== previousSessionId) {
+                appendMessage(
+                    "system",
+                    "The agent could not resume the previous session, so a new one was started."
+                );
+            }
+        } catch (err) {
+            const message = formatError(err);
+            setStatus("error");
+            setError(message);
+            appendMessage("system", `Connection error: ${message}`);
+        }
+    }, [appendMessage, finishThinking, session]);
+
+    const handleRestartAgent = useCallback(async () => {
+        setStatus("connecting");
+        try {
+            await session.restartAgent();
+        } catch (err) {
+            const message = formatError(err);
+            setStatus("error");
+            setError(message);
+            appendMessage("system", `Restart error: ${message}`);
+            return;
+        }
+        await resumeSession();
+    }, [appendMessage, resumeSession, session]);
+
+    const handleOpenFile = useCallback((path: string, line?: number) => {
+        const file = app.vault.getFileByPath(path);
+        if (!file) {
+            appendMessage("system", `File not found: ${path}`);
+            return;
+        }
+
+        // ACP lines are 1-based; the editor's are 0-based.
+        const openState = line ? { eState: { line: line - 1 } } : undefined;
+        app.workspace.getLeaf(false).openFile(file, openState).catch((err: unknown) => {
+            appendMessage("system", `Open error: ${formatError(err)}`);
+        });
+    }, [app, appendMessage]);
+
+    const handleSaveImage = useCallback(async (image: ImageContent) => {
+        // Named like images pasted into a note.
+        const extension = getMediaExtension(image.mimeType) ?? "png";
+        const sourcePath = app.workspace.getActiveFile()?.path ?? "";
+        try {
+            const path = await app.fileManager.getAvailablePathForAttachment(
+                `Agent image ${moment().format("YYYYMMDDHHmmss")}.${extension}`,
+                sourcePath
+            );
+            await app.vault.createBinary(path, base64ToArrayBuffer(image.data));
+            appendMessage("system", `Saved image to ${path}`);
+        } catch (err) {
+            appendMessage("system", `Save error: ${formatError(err)}`);
+        }
+    }, [app, appendMessage]);
+
+    const handleSaveImageClick = useCallback((image: ImageContent) => {
+        void handleSaveImage(image);
+    }, [handleSaveImage]);
+
+    const handleModeChangeClick = useCallback((modeId: string) => {
+        void handleModeChange(modeId);
+    }, [handleModeChange]);
+
+    const handleConfigOptionChangeClick = useCallback((configId: string, value: string) => {
+        void handleConfigOptionChange(configId, value);
+    }, [handleConfigOptionChange]);
+
+    const handleRestartAgentClick = useCallback(() => {
+        void handleRestartAgent();
+    }, [handleRestartAgent]);
 
     const handleKeyDown = useCallback((event: KeyboardEvent<HTMLTextAreaElement>) => {
         if (event.key === "Enter" && !event.shiftKey) {
@@ -113,13 +344,16 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
         let isActive = true;
 
         const init = async () => {
+            // Each session handle is its own conversation.
+            clearMessages();
             setStatus("connecting");
             setError(null);
             try {
-                await client.ensureSession();
+                await session.ensureSession();
                 if (!isActive) {
                     return;
                 }
+                finishThinking();
                 setStatus("ready");
             } catch (err) {
                 if (!isActive) {
@@ -137,7 +371,35 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
         return () => {
             isActive = false;
         };
-    }, [appendMessage, client]);
+    }, [appendMessage, clearMessages, finishThinking, session]);
+
+    useEffect(() => {
+        // A resumed session replays its transcript, so start from an empty list.
+        return session.subscribeReset(() => {
+            clearMessages();
+        });
+    }, [clearMessages, session]);
+
+    useEffect(() => {
+        setConnectionState(session.getConnectionState());
+        let interrupted = false;
+
+        return session.subscribeConnectionState((state) => {
+            setConnectionState(state);
+            if (state.status === "crashed") {
+                interrupted = true;
+                setStatus("error");
+                appendMessage(
+                    "system",
+                    state.willReconnect ? `${state.message}. Reconnecting…` : `${state.message}.`
+                );
+            } else if (state.status === "ready" && interrupted) {
+                // The reconnected agent has no open sessions; reopen ours.
+                interrupted = false;
+                void resumeSession();
+            }
+        });
+    }, [appendMessage, resumeSession, session]);
 
     useEffect(() => {
         void ensureAutoAttachment();
@@ -155,35 +417,27 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
             const update = notification.update;
             switch (update.sessionUpdate) {
                 case "agent_message_chunk": {
-                    appendAssistantText(contentToText(update.content));
+                    if (update.content.type === "text") {
+                        appendAssistantText(update.content.text);
+                    } else {
+                        appendContentBlock("assistant", update.content);
+                    }
                     break;
                 }
                 case "agent_thought_chunk": {
-                    const thought = contentToText(update.content);
-                    appendMessage("system", `Thought: ${thought}`);
-                    break;
-                }
-                case "tool_call": {
-                    appendMessage("system", describeToolCall("Tool call", update));
+                    appendThoughtText(contentToText(update.content));
                     break;
                 }
+                case "tool_call":
                 case "tool_call_update": {
-                    appendMessage("system", describeToolCall("Tool update", update));
+                    // The card itself follows the merged state from useToolCalls.
+                    appendToolCall(update.toolCallId);
                     break;
                 }
                 case "current_mode_update": {
-                    appendMessage("system", `Mode: ${update.currentModeId}`);
-                    break;
-                }
-                case "available_commands_update": {
-                    appendMessage(
-                        "system",
-                        `Commands available: ${update.availableCommands.length}`
-                    );
-                    break;
-                }
-                case "config_option_update": {
-                    appendMessage("system", "Config updated.");
+                    const mode = session.getModes()?.availableModes
+                        .find((item) => item.id === update.currentModeId);
+                    appendMessage("system", `Mode changed to ${mode?.name ?? update.currentModeId}`);
                     break;
                 }
                 case "session_info_update": {
@@ -192,11 +446,12 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
                     }
                     break;
                 }
-                case "plan": {
-                    appendMessage("system", "Plan updated.");
-                    break;
-                }
                 case "user_message_chunk": {
+                    if (update.content.type === "text") {
+                        appendUserText(update.content.text);
+                    } else {
+                        appendContentBlock("user", update.content);
+                    }
                     break;
                 }
                 default: {
@@ -205,15 +460,23 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
             }
         };
 
-        const unsubscribe = client.subscribeSessionUpdates(handleSessionUpdate);
+        const unsubscribe = session.subscribeSessionUpdates(handleSessionUpdate);
         return () => {
             unsubscribe();
         };
-    }, [appendMessage, appendAssistantText, client]);
+    }, [
+        appendMessage,
+        appendAssistantText,
+        appendUserText,
+        appendThoughtText,
+        appendContentBlock,
+        appendToolCall,
+        session,
+    ]);
 
     useEffect(() => {
         scrollAnchorRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
-    }, [messages, isSending, activePermission]);
+    }, [messages, toolCalls, terminals, isSending, activePermission, activeWriteReview]);
 
     const wrappedHandlePermissionSelect = useCallback((option: PermissionOption) => {
         handlePermissionSelect(option);
@@ -227,25 +490,75 @@ export const ChatView = ({ client, app }: ChatViewProps) => {
 
     return (
         <div className="assistant-chat-root" {...dragHandlers}>
-            <ChatHeader status={status} isSending={isSending} />
-            <ChatMessages messages={messages}>
-                {activePermission && (
-                    <PermissionPrompt
-                        request={activePermission.request}
-                        pendingCount={pendingPermissionCount}
-                        onSelect={wrappedHandlePermissionSelect}
-                        onCancel={wrappedHandlePermissionCancel}
-                    />
-                )}
-                {error && <ChatError message={error} />}
-                <div ref={scrollAnchorRef} />
-            </ChatMessages>
+            <ChatHeader
+                status={status}
+                isSending={isSending}
+                connectionState={connectionState}
+                agentProfiles={agentProfiles}
+                activeAgentProfileId={activeAgentProfileId}
+                onAgentProfileChange={onAgentProfileChange}
+                modes={modes}
+                onModeChange={handleModeChangeClick}
+                configOptions={configOptions}
+                onConfigOptionChange={handleConfigOptionChangeClick}
+                onNewChat={handleNewChatClick}
+                onRestartAgent={handleRestartAgentClick}
+                isHistoryOpen={isHistoryOpen}
+                onToggleHistory={handleToggleHistory}
+            />
+            {isHistoryOpen ? (
+                <HistoryPanel
+                    conversations={conversations}
+                    isLoading={isHistoryLoading}
+                    error={historyError}
+                    folder={conversationFolder}
+                    onOpen={handleOpenConversation}
+                    onRename={handleRenameConversation}
+                    onDuplicate={handleDuplicateConversation}
+                    onDelete={handleDeleteConversation}
+                    onClose={handleCloseHistory}
+                />
+            ) : (
+                <>
+                    <PlanPanel history={planHistory} />
+                    <ChatMessages
+                        app={app}
+                        messages={messages}
+                        toolCalls={toolCalls}
+                        terminals={terminals}
+                        resolveVaultPath={resolveVaultPath}
+                        onOpenFile={handleOpenFile}
+                        onSaveImage={handleSaveImageClick}
+                        thoughtDisplay={thoughtDisplay}
+                    >
+                        {activePermission && (
+                            <PermissionPrompt
+                                request={activePermission.request}
+                                pendingCount={pendingPermissionCount}
+                                onSelect={wrappedHandlePermissionSelect}
+                                onCancel={wrappedHandlePermissionCancel}
+                            />
+                        )}
+                        {activeWriteReview && (
+                            <WriteReviewCard
+                                request={activeWriteReview.request}
+                                pendingCount={pendingWriteReviewCount}
+                                onAccept={handleWriteAccept}
+                                onReject={handleWriteReject}
+                            />
+                        )}
+                        {error && <ChatError message={error} />}
+                        <div ref={scrollAnchorRef} />
+                    </ChatMessages>
+                </>
+            )}
             <ChatInput
                 input={input}
                 ref={inputRef}
                 isSending={isSending}
                 isDragActive={isDragActive}
                 attachments={attachments}
+                commands={commands}
                 onAttachmentRemove={handleAttachmentRemove}
                 onInputChange={setInput}
                 onAttach={handleAttachClick}
@@ -1,28 +1,161 @@
 import { memo } from "react";
+import type { SessionConfigOption, SessionModeState } from "@agentclientprotocol/sdk";
+import type { ConnectionState } from "acp/client";
+import type { AgentProfileOption } from "../types";
+import { ConfigOptionsPopover } from "./ConfigOptionsPopover";
 
 interface ChatHeaderProps {
     status: "connecting" | "ready" | "error";
     isSending: boolean;
+    connectionState: ConnectionState;
+    agentProfiles: AgentProfileOption[];
+    activeAgentProfileId: string;
+    onAgentProfileChange: (id: string) => void;
+    modes: SessionModeState | null;
+    onModeChange: (modeId: string) => void;
+    configOptions: SessionConfigOption[] | null;
+    onConfigOptionChange: (configId: string, value: string) => void;
+    onNewChat: () => void;
+    onRestartAgent: () => void;
+    isHistoryOpen: boolean;
+    onToggleHistory: () => void;
 }
 
-export const ChatHeader = memo(function ChatHeader({ status, isSending }: ChatHeaderProps) {
-    const statusLabel = getStatusLabel(status, isSending);
-    const statusTone = getStatusTone(status, isSending);
+export const ChatHeader = memo(function ChatHeader({
+    status,
+    isSending,
+    connectionState,
+    agentProfiles,
+    activeAgentProfileId,
+    onAgentProfileChange,
+    modes,
+    onModeChange,
+    configOptions,
+    onConfigOptionChange,
+    onNewChat,
+    onRestartAgent,
+    isHistoryOpen,
+    onToggleHistory,
+}: ChatHeaderProps) {
+    const statusLabel = getConnectionLabel(connectionState) ?? getStatusLabel(status, isSending);
+    const statusTone = getConnectionTone(connectionState) ?? getStatusTone(status, isSending);
+    const isRestarting = connectionState.status === "spawning" || connectionState.status === "initializing";
+    const currentMode = modes?.availableModes.find((mode) => mode.id === modes.currentModeId) ?? null;
+    // Agents with a mode config option expose modes there; avoid a second control.
+    const showModes = !!modes && modes.availableModes.length > 0 &&
+        !configOptions?.some((option) => option.category === "mode");
 
     return (
         <header className="assistant-chat-header">
             <div>
                 <h1 className="assistant-chat-title">Assistant</h1>
-                <p className="assistant-chat-subtitle">Agent session</p>
+                {agentProfiles.length > 1 ? (
+                    <select
+                        className="assistant-chat-agent-select dropdown"
+                        value={activeAgentProfileId}
+                        onChange={(event) => onAgentProfileChange(event.target.value)}
+                        disabled={isSending}
+                        aria-label="Active agent"
+                    >
+                        {agentProfiles.map((profile) => (
+                            <option key={profile.id} value={profile.id}>
+                                {profile.name}
+                            </option>
+                        ))}
+                    </select>
+                ) : (
+                    <p className="assistant-chat-subtitle">
+                        {agentProfiles[0]?.name ?? "Agent session"}
+                    </p>
+                )}
             </div>
-            <div className={`assistant-chat-status is-${statusTone}`} role="status" aria-live="polite">
-                <span className="assistant-chat-status-dot" aria-hidden="true" />
-                <span>{statusLabel}</span>
+            <div className="assistant-chat-header-actions">
+                {configOptions && configOptions.length > 0 ? (
+                    <ConfigOptionsPopover
+                        options={configOptions}
+                        disabled={isSending}
+                        onChange={onConfigOptionChange}
+                    />
+                ) : null}
+                {showModes && modes ? (
+                    <select
+                        className="assistant-chat-mode-select dropdown"
+                        value={modes.currentModeId}
+                        onChange={(event) => onModeChange(event.target.value)}
+                        disabled={isSending}
+                        aria-label="Session mode"
+                        title={currentMode?.description ?? undefined}
+                    >
+                        {modes.availableModes.map((mode) => (
+                            <option key={mode.id} value={mode.id} title={mode.description ?? undefined}>
+                                {mode.name}
+                            </option>
+                        ))}
+                    </select>
+                ) : null}
+                <button
+                    className="assistant-chat-new"
+                    type="button"
+                    onClick={onNewChat}
+                    disabled={isSending}
+                    aria-label="Start new chat"
+                >
+                    New chat
+                </button>
+                <button
+                    className={`assistant-chat-history-toggle${isHistoryOpen ? " is-active" : ""}`}
+                    type="button"
+                    onClick={onToggleHistory}
+                    aria-pressed={isHistoryOpen}
+                    aria-label="Show conversation history"
+                >
+                    History
+                </button>
+                <button
+                    className="assistant-chat-restart"
+                    type="button"
+                    onClick={onRestartAgent}
+                    disabled={isRestarting}
+                    aria-label="Restart agent process"
+                >
+                    Restart agent
+                </button>
+                <div className={`assistant-chat-status is-${statusTone}`} role="status" aria-live="polite">
+                    <span className="assistant-chat-status-dot" aria-hidden="true" />
+                    <span>{statusLabel}</span>
+                </div>
             </div>
         </header>
     );
 });
 
+function getConnectionLabel(state: ConnectionState): string | null {
+    switch (state.status) {
+        case "spawning":
+        case "initializing":
+            return "Starting agent";
+        case "reconnecting":
+            return `Reconnecting (${state.attempt}/${state.maxAttempts})`;
+        case "crashed":
+            return state.willReconnect ? "Agent exited" : "Disconnected";
+        default:
+            return null;
+    }
+}
+
+function getConnectionTone(state: ConnectionState): string | null {
+    switch (state.status) {
+        case "spawning":
+        case "initializing":
+        case "reconnecting":
+            return "connecting";
+        case "crashed":
+            return "error";
+        default:
+            return null;
+    }
+}
+
 function getStatusLabel(status: "connecting" | "ready" | "error", isSending: boolean): string {
     if (status === "error") {
         return "Disconnected";
@@ -1,13 +1,17 @@
-import { memo, forwardRef } from "react";
+import { memo, forwardRef, useEffect, useMemo, useState } from "react";
 import type { KeyboardEvent } from "react";
+import type { AvailableCommand } from "@agentclientprotocol/sdk";
 import type { Attachment } from "../types";
+import { findTypedCommand, formatCommand, matchCommands } from "../utils";
 import { AttachmentList } from "./AttachmentList";
+import { CommandPalette } from "./CommandPalette";
 
 interface ChatInputProps {
     input: string;
     isSending: boolean;
     isDragActive: boolean;
     attachments: Attachment[];
+    commands: AvailableCommand[];
     onAttachmentRemove: (id: string) => void;
     onInputChange: (value: string) => void;
     onAttach: () => void;
@@ -20,12 +24,62 @@ export const ChatInput = memo(forwardRef<HTMLTextAreaElement, ChatInputProps>(fu
     isSending,
     isDragActive,
     attachments,
+    commands,
     onAttachmentRemove,
     onInputChange,
     onAttach,
     onSend,
     onKeyDown,
 }: ChatInputProps, ref) {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+    const suggestions = useMemo(
+        () => (dismissedInput === input ? [] : matchCommands(commands, input)),
+        [commands, dismissedInput, input]
+    );
+    const typedCommand = useMemo(() => findTypedCommand(commands, input), [commands, input]);
+    const isPaletteOpen = suggestions.length > 0 && !isSending;
+
+    useEffect(() => {
+        setSelectedIndex(0);
+    }, [input, commands]);
+
+    const selectCommand = (command: AvailableCommand) => {
+        onInputChange(formatCommand(command));
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (isPaletteOpen) {
+            switch (event.key) {
+                case "ArrowDown":
+                    event.preventDefault();
+                    setSelectedIndex((index) => (index + 1) % suggestions.length);
+                    return;
+                case "ArrowUp":
+                    event.preventDefault();
+                    setSelectedIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+                    return;
+                case "Enter":
+                case "Tab": {
+                    const command = suggestions[selectedIndex];
+                    if (command && !event.shiftKey) {
+                        event.preventDefault();
+                        selectCommand(command);
+                        return;
+                    }
+                    break;
+                }
+                case "Escape":
+                    event.preventDefault();
+                    setDismissedInput(input);
+                    return;
+                default:
+                    break;
+            }
+        }
+        onKeyDown(event);
+    };
+
     return (
         <form
             className="assistant-chat-input"
@@ -35,6 +89,19 @@ export const ChatInput = memo(forwardRef<HTMLTextAreaElement, ChatInputProps>(fu
             }}
         >
             <AttachmentList attachments={attachments} onRemove={onAttachmentRemove} />
+            {isPaletteOpen ? (
+                <CommandPalette
+                    commands={suggestions}
+                    selectedIndex={selectedIndex}
+                    onSelect={selectCommand}
+                    onHover={setSelectedIndex}
+                />
+            ) : typedCommand?.input?.hint ? (
+                <div className="assistant-chat-command-usage">
+                    <span className="assistant-chat-command-name">/{typedCommand.name}</span>
+                    <span className="assistant-chat-command-hint">{typedCommand.input.hint}</span>
+                </div>
+            ) : null}
             <div
                 className={`assistant-chat-input-row${isDragActive ? " is-drop" : ""}`}
             >
@@ -52,11 +119,14 @@ export const ChatInput = memo(forwardRef<HTMLTextAreaElement, ChatInputProps>(fu
                     className="assistant-chat-textarea"
                     value={input}
                     onChange={(event) => onInputChange(event.target.value)}
-                    onKeyDown={onKeyDown}
-                    placeholder="Ask assistant"
+                    onKeyDown={handleKeyDown}
+                    placeholder={commands.length > 0 ? "Ask assistant, or type / for commands" : "Ask assistant"}
                     disabled={isSending}
                     aria-label="Message input"
                     aria-multiline="true"
+                    aria-autocomplete="list"
+                    aria-controls={isPaletteOpen ? "assistant-chat-commands" : undefined}
+                    aria-activedescendant={isPaletteOpen ? `assistant-chat-command-${selectedIndex}` : undefined}
                 />
                 <button
                     className="assistant-chat-send"
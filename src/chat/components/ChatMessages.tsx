@@ -1,36 +1,122 @@
-import { memo } from "react";
+import { memo, useState } from "react";
 import type { ReactNode } from "react";
-import type { ChatMessage } from "../types";
+import type { ImageContent } from "@agentclientprotocol/sdk";
+import type { App } from "obsidian";
+import type { TerminalSnapshot } from "acp/terminals";
+import type { ChatMessage, ThoughtDisplay, ToolCallFilter, ToolCallState } from "../types";
+import { matchesToolCallFilter } from "../utils";
+import { ContentBlockView } from "./ContentBlockView";
+import { MarkdownContent } from "./MarkdownContent";
+import { ThoughtBlock } from "./ThoughtBlock";
+import { ToolCallCard } from "./ToolCallCard";
+import { ToolCallFilterBar } from "./ToolCallFilterBar";
 
 interface ChatMessagesProps {
+    app: App;
     messages: ChatMessage[];
+    toolCalls: Record<string, ToolCallState>;
+    terminals: Record<string, TerminalSnapshot>;
+    resolveVaultPath: (path: string) => string | null;
+    onOpenFile: (path: string, line?: number) => void;
+    onSaveImage: (image: ImageContent) => void;
+    thoughtDisplay: ThoughtDisplay;
     children?: ReactNode;
 }
 
-export const ChatMessages = memo(function ChatMessages({ messages, children }: ChatMessagesProps) {
+const DEFAULT_TOOL_FILTER: ToolCallFilter = { query: "", status: "all" };
+
+export const ChatMessages = memo(function ChatMessages({
+    app,
+    messages,
+    toolCalls,
+    terminals,
+    resolveVaultPath,
+    onOpenFile,
+    onSaveImage,
+    thoughtDisplay,
+    children,
+}: ChatMessagesProps) {
+    const [toolFilter, setToolFilter] = useState<ToolCallFilter>(DEFAULT_TOOL_FILTER);
+    const allToolCalls = Object.values(toolCalls);
+    const shownToolCalls = allToolCalls.filter((toolCall) => matchesToolCallFilter(toolCall, toolFilter));
+
     return (
         <section className="assistant-chat-messages" aria-live="polite" aria-label="Chat messages">
+            {allToolCalls.length > 0 ? (
+                <ToolCallFilterBar
+                    filter={toolFilter}
+                    total={allToolCalls.length}
+                    shown={shownToolCalls.length}
+                    onChange={setToolFilter}
+                />
+            ) : null}
             {messages.length === 0 ? (
                 <div className="assistant-chat-empty">
                     Start a conversation to see responses here.
                 </div>
             ) : null}
-            {messages.map((message) => (
-                <ChatMessageItem key={message.id} message={message} />
-            ))}
+            {messages.map((message) => {
+                if (message.toolCallId) {
+                    const toolCall = toolCalls[message.toolCallId];
+                    if (!toolCall || !matchesToolCallFilter(toolCall, toolFilter)) {
+                        return null;
+                    }
+
+                    return (
+                        <ToolCallCard
+                            key={message.id}
+                            toolCall={toolCall}
+                            terminals={terminals}
+                            resolveVaultPath={resolveVaultPath}
+                            onOpenFile={onOpenFile}
+                            onSaveImage={onSaveImage}
+                        />
+                    );
+                }
+
+                if (message.role === "thought") {
+                    return thoughtDisplay === "hidden" ? null : (
+                        <ThoughtBlock
+                            key={message.id}
+                            message={message}
+                            defaultExpanded={thoughtDisplay === "expanded"}
+                        />
+                    );
+                }
+
+                if (message.block) {
+                    return (
+                        <article key={message.id} className={`assistant-chat-message ${message.role} is-block`}>
+                            <ContentBlockView
+                                block={message.block}
+                                resolveVaultPath={resolveVaultPath}
+                                onOpenFile={onOpenFile}
+                                onSaveImage={onSaveImage}
+                            />
+                        </article>
+                    );
+                }
+
+                return <ChatMessageItem key={message.id} app={app} message={message} />;
+            })}
             {children}
         </section>
     );
 });
 
 interface ChatMessageItemProps {
+    app: App;
     message: ChatMessage;
 }
 
-export const ChatMessageItem = memo(function ChatMessageItem({ message }: ChatMessageItemProps) {
+export const ChatMessageItem = memo(function ChatMessageItem({ app, message }: ChatMessageItemProps) {
     return (
         <article className={`assistant-chat-message ${message.role}`}>
-            {message.content}
+            {message.role === "assistant" ? (
+                <MarkdownContent app={app} markdown={message.content} />
+            ) : (
+                message.content
+            )}
         </article>
     );
 });
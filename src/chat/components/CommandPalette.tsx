@@ -0,0 +1,53 @@
+import { memo, useEffect, useRef } from "react";
+import type { AvailableCommand } from "@agentclientprotocol/sdk";
+
+interface CommandPaletteProps {
+    commands: AvailableCommand[];
+    selectedIndex: number;
+    onSelect: (command: AvailableCommand) => void;
+    onHover: (index: number) => void;
+}
+
+export const CommandPalette = memo(function CommandPalette({
+    commands,
+    selectedIndex,
+    onSelect,
+    onHover,
+}: CommandPaletteProps) {
+    const listRef = useRef<HTMLUListElement>(null);
+
+    useEffect(() => {
+        const item = listRef.current?.children[selectedIndex];
+        item?.scrollIntoView({ block: "nearest" });
+    }, [selectedIndex]);
+
+    return (
+        <ul
+            className="assistant-chat-commands"
+            id="assistant-chat-commands"
+            role="listbox"
+            aria-label="Agent commands"
+            ref={listRef}
+        >
+            {commands.map((command, index) => (
+                <li
+                    key={command.name}
+                    id={`assistant-chat-command-${index}`}
+                    className={`assistant-chat-command${index === selectedIndex ? " is-selected" : ""}`}
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    // Keep focus in the textarea.
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => onSelect(command)}
+                    onMouseEnter={() => onHover(index)}
+                >
+                    <span className="assistant-chat-command-name">/{command.name}</span>
+                    {command.input?.hint ? (
+                        <span className="assistant-chat-command-hint">{command.input.hint}</span>
+                    ) : null}
+                    <span className="assistant-chat-command-description">{command.description}</span>
+                </li>
+            ))}
+        </ul>
+    );
+});
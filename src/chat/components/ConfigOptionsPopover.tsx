@@ -0,0 +1,100 @@
+import { memo, useEffect, useRef, useState } from "react";
+import type { SessionConfigOption, SessionConfigSelectOption } from "@agentclientprotocol/sdk";
+
+interface ConfigOptionsPopoverProps {
+    options: SessionConfigOption[];
+    disabled: boolean;
+    onChange: (configId: string, value: string) => void;
+}
+
+const flattenChoices = (option: SessionConfigOption): SessionConfigSelectOption[] =>
+    option.options.flatMap((item) => ("group" in item ? item.options : [item]));
+
+const currentChoiceName = (option: SessionConfigOption): string =>
+    flattenChoices(option).find((choice) => choice.value === option.currentValue)?.name ?? option.currentValue;
+
+export const ConfigOptionsPopover = memo(function ConfigOptionsPopover({
+    options,
+    disabled,
+    onChange,
+}: ConfigOptionsPopoverProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        // Popout windows have their own document.
+        const doc = containerRef.current?.ownerDocument;
+        if (!isOpen || !doc) {
+            return;
+        }
+
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") {
+                setIsOpen(false);
+            }
+        };
+        doc.addEventListener("pointerdown", handlePointerDown);
+        doc.addEventListener("keydown", handleKeyDown);
+        return () => {
+            doc.removeEventListener("pointerdown", handlePointerDown);
+            doc.removeEventListener("keydown", handleKeyDown);
+        };
+    }, [isOpen]);
+
+    const summary = options.map(currentChoiceName).join(" · ");
+
+    return (
+        <div className="assistant-chat-config" ref={containerRef}>
+            <button
+                className="assistant-chat-config-toggle"
+                type="button"
+                onClick={() => setIsOpen((open) => !open)}
+                aria-expanded={isOpen}
+                aria-haspopup="dialog"
+                aria-label="Session settings"
+                title={summary}
+            >
+                {summary}
+            </button>
+            {isOpen ? (
+                <div className="assistant-chat-config-popover" role="dialog" aria-label="Session settings">
+                    {options.map((option) => (
+                        <label key={option.id} className="assistant-chat-config-option">
+                            <span className="assistant-chat-config-name">{option.name}</span>
+                            <select
+                                className="dropdown"
+                                value={option.currentValue}
+                                disabled={disabled}
+                                onChange={(event) => onChange(option.id, event.target.value)}
+                            >
+                                {option.options.map((item) =>
+                                    "group" in item ? (
+                                        <optgroup key={item.group} label={item.name}>
+                                            {item.options.map((choice) => (
+                                                <option key={choice.value} value={choice.value} title={choice.description ?? undefined}>
+                                                    {choice.name}
+                                                </option>
+                                            ))}
+                                        </optgroup>
+                                    ) : (
+                                        <option key={item.value} value={item.value} title={item.description ?? undefined}>
+                                            {item.name}
+                                        </option>
+                                    )
+                                )}
+                            </select>
+                            {option.description ? (
+                                <span className="assistant-chat-config-description">{option.description}</span>
+                            ) : null}
+                        </label>
+                    ))}
+                </div>
+            ) : null}
+        </div>
+    );
+});
@@ -0,0 +1,183 @@
+import { memo, useState } from "react";
+import type { ContentBlock, EmbeddedResource, ImageContent, ResourceLink } from "@agentclientprotocol/sdk";
+import { formatBytes, fromVaultUri } from "../utils";
+
+interface ContentBlockViewProps {
+    block: ContentBlock;
+    /** Vault path for an agent path, or null when it is outside the vault. */
+    resolveVaultPath: (path: string) => string | null;
+    onOpenFile: (path: string, line?: number) => void;
+    onSaveImage: (image: ImageContent) => void;
+}
+
+const toDataUri = (mimeType: string, data: string) => `data:${mimeType};base64,${data}`;
+
+/** Decoded size of base64 data, without decoding it. */
+const base64Size = (data: string) => Math.floor((data.length * 3) / 4) - (data.match(/=+$/)?.[0].length ?? 0);
+
+/** Vault path behind a `vault:///` or `file://` URI. */
+const resolveResourcePath = (uri: string, resolveVaultPath: (path: string) => string | null): string | null => {
+    const vaultPath = fromVaultUri(uri);
+    if (vaultPath !== null) {
+        return vaultPath;
+    }
+
+    if (uri.startsWith("file://")) {
+        try {
+            return resolveVaultPath(decodeURIComponent(new URL(uri).pathname));
+        } catch {
+            return null;
+        }
+    }
+
+    return null;
+};
+
+const isWebUri = (uri: string) => /^https?:\/\//i.test(uri);
+
+export const ContentBlockView = memo(function ContentBlockView({
+    block,
+    resolveVaultPath,
+    onOpenFile,
+    onSaveImage,
+}: ContentBlockViewProps) {
+    switch (block.type) {
+        case "text":
+            return <div className="assistant-chat-content-text">{block.text}</div>;
+        case "image":
+            return (
+                <figure className="assistant-chat-content-image">
+                    <img src={toDataUri(block.mimeType, block.data)} alt={block.uri ?? "Image from the agent"} />
+                    <figcaption>
+                        <button type="button" onClick={() => onSaveImage(block)}>
+                            Save to vault
+                        </button>
+                    </figcaption>
+                </figure>
+            );
+        case "audio":
+            return (
+                <audio
+                    className="assistant-chat-content-audio"
+                    controls
+                    src={toDataUri(block.mimeType, block.data)}
+                />
+            );
+        case "resource_link":
+            return (
+                <ResourceLinkView
+                    link={block}
+                    resolveVaultPath={resolveVaultPath}
+                    onOpenFile={onOpenFile}
+                />
+            );
+        case "resource":
+            return (
+                <EmbeddedResourceView
+                    resource={block}
+                    resolveVaultPath={resolveVaultPath}
+                    onOpenFile={onOpenFile}
+                />
+            );
+        default:
+            return null;
+    }
+});
+
+interface ResourceLinkViewProps {
+    link: ResourceLink;
+    resolveVaultPath: (path: string) => string | null;
+    onOpenFile: (path: string) => void;
+}
+
+const ResourceLinkView = ({ link, resolveVaultPath, onOpenFile }: ResourceLinkViewProps) => {
+    const vaultPath = resolveResourcePath(link.uri, resolveVaultPath);
+    const label = link.title ?? link.name ?? link.uri;
+    const details = [link.mimeType, typeof link.size === "number" ? formatBytes(link.size) : null]
+        .filter(Boolean)
+        .join(" · ");
+
+    return (
+        <div className="assistant-chat-content-link">
+            {vaultPath !== null ? (
+                <a
+                    className="internal-link"
+                    href="#"
+                    onClick={(event) => {
+                        event.preventDefault();
+                        onOpenFile(vaultPath);
+                    }}
+                >
+                    {label}
+                </a>
+            ) : isWebUri(link.uri) ? (
+                <a className="external-link" href={link.uri} target="_blank" rel="noopener noreferrer">
+                    {label}
+                </a>
+            ) : (
+                <code>{label}</code>
+            )}
+            {details ? <span className="assistant-chat-content-meta">{details}</span> : null}
+            {link.description ? (
+                <div className="assistant-chat-content-meta">{link.description}</div>
+            ) : null}
+        </div>
+    );
+};
+
+interface EmbeddedResourceViewProps {
+    resource: EmbeddedResource;
+    resolveVaultPath: (path: string) => string | null;
+    onOpenFile: (path: string) => void;
+}
+
+const EmbeddedResourceView = ({ resource: { resource }, resolveVaultPath, onOpenFile }: EmbeddedResourceViewProps) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const vaultPath = resolveResourcePath(resource.uri, resolveVaultPath);
+    const name = vaultPath ?? resource.uri;
+    const isText = "text" in resource;
+    const mimeType = resource.mimeType ?? "";
+    const size = isText ? formatBytes(resource.text.length) : formatBytes(base64Size(resource.blob));
+
+    return (
+        <div className="assistant-chat-content-resource">
+            <div className="assistant-chat-content-resource-header">
+                <button
+                    className="assistant-chat-content-resource-toggle"
+                    type="button"
+                    aria-expanded={isExpanded}
+                    onClick={() => setIsExpanded((prev) => !prev)}
+                >
+                    <span aria-hidden="true">{isExpanded ? "▾" : "▸"}</span>
+                    <span className="assistant-chat-content-resource-name">{name}</span>
+                    <span className="assistant-chat-content-meta">
+                        {[mimeType, size].filter(Boolean).join(" · ")}
+                    </span>
+                </button>
+                {vaultPath !== null ? (
+                    <a
+                        className="internal-link"
+                        href="#"
+                        onClick={(event) => {
+                            event.preventDefault();
+                            onOpenFile(vaultPath);
+                        }}
+                    >
+                        Open
+                    </a>
+                ) : null}
+            </div>
+            {isExpanded ? (
+                isText ? (
+                    <pre className="assistant-chat-content-resource-text">{resource.text}</pre>
+                ) : mimeType.startsWith("image/") ? (
+                    <img src={toDataUri(mimeType, resource.blob)} alt={name} />
+                ) : mimeType.startsWith("audio/") ? (
+                    <audio controls src={toDataUri(mimeType, resource.blob)} />
+                ) : (
+                    <div className="assistant-chat-content-meta">Binary content is not previewed.</div>
+                )
+            ) : null}
+        </div>
+    );
+};
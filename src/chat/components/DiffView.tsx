@@ -0,0 +1,38 @@
+import { memo } from "react";
+import type { DiffHunk } from "acp/diff";
+
+interface DiffViewProps {
+    hunks: DiffHunk[];
+}
+
+export const DiffView = memo(function DiffView({ hunks }: DiffViewProps) {
+    return (
+        <div className="assistant-chat-diff">
+            {hunks.length === 0 ? (
+                <div className="assistant-chat-diff-empty">No changes.</div>
+            ) : (
+                hunks.map((hunk, index) => (
+                    <div key={index} className="assistant-chat-diff-hunk">
+                        {hunk.lines.map((line, lineIndex) => (
+                            <div
+                                key={lineIndex}
+                                className={`assistant-chat-diff-line is-${line.type}`}
+                            >
+                                <span className="assistant-chat-diff-number">
+                                    {line.oldLine ?? ""}
+                                </span>
+                                <span className="assistant-chat-diff-number">
+                                    {line.newLine ?? ""}
+                                </span>
+                                <span className="assistant-chat-diff-marker">
+                                    {line.type === "add" ? "+" : line.type === "remove" ? "−" : " "}
+                                </span>
+                                <span className="assistant-chat-diff-text">{line.text}</span>
+                            </div>
+                        ))}
+                    </div>
+                ))
+            )}
+        </div>
+    );
+});
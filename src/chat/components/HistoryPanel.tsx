@@ -0,0 +1,199 @@
+import { memo, useMemo, useState } from "react";
+import { moment } from "obsidian";
+import type { ConversationSummary } from "conversationNotes";
+
+interface HistoryPanelProps {
+    conversations: ConversationSummary[];
+    isLoading: boolean;
+    error: string | null;
+    folder: string;
+    onOpen: (conversation: ConversationSummary) => void;
+    onRename: (conversation: ConversationSummary, title: string) => void;
+    onDuplicate: (conversation: ConversationSummary) => void;
+    onDelete: (conversation: ConversationSummary) => void;
+    onClose: () => void;
+}
+
+const SNIPPET_RADIUS = 60;
+
+/** Text around the first match of `query` in `text`, or null when it does not occur. */
+const findSnippet = (text: string, query: string): string | null => {
+    const index = text.toLowerCase().indexOf(query);
+    if (index === -1) {
+        return null;
+    }
+
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + query.length + SNIPPET_RADIUS);
+    const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+    return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+};
+
+type SearchResult = {
+    conversation: ConversationSummary;
+    snippet: string | null;
+};
+
+const searchConversations = (conversations: ConversationSummary[], query: string): SearchResult[] => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+        return conversations.map((conversation) => ({ conversation, snippet: null }));
+    }
+
+    return conversations.flatMap((conversation) => {
+        const inHeader = `${conversation.title}\n${conversation.agentName}`.toLowerCase().includes(needle);
+        const snippet = findSnippet(conversation.text, needle);
+        return inHeader || snippet !== null ? [{ conversation, snippet }] : [];
+    });
+};
+
+export const HistoryPanel = memo(function HistoryPanel({
+    conversations,
+    isLoading,
+    error,
+    folder,
+    onOpen,
+    onRename,
+    onDuplicate,
+    onDelete,
+    onClose,
+}: HistoryPanelProps) {
+    const [query, setQuery] = useState("");
+    const results = useMemo(() => searchConversations(conversations, query), [conversations, query]);
+
+    return (
+        <section className="assistant-chat-history" aria-label="Conversation history">
+            <div className="assistant-chat-history-toolbar">
+                <input
+                    className="assistant-chat-history-search"
+                    type="search"
+                    placeholder="Search conversations"
+                    value={query}
+                    onChange={(event) => setQuery(event.target.value)}
+                    aria-label="Search conversations"
+                />
+                <button type="button" onClick={onClose}>
+                    Back to chat
+                </button>
+            </div>
+            {error ? <div className="assistant-chat-history-error" role="alert">{error}</div> : null}
+            {results.length > 0 ? (
+                <ul className="assistant-chat-history-list">
+                    {results.map(({ conversation, snippet }) => (
+                        <HistoryItem
+                            key={conversation.path}
+                            conversation={conversation}
+                            snippet={snippet}
+                            onOpen={onOpen}
+                            onRename={onRename}
+                            onDuplicate={onDuplicate}
+                            onDelete={onDelete}
+                        />
+                    ))}
+                </ul>
+            ) : isLoading ? null : (
+                <div className="assistant-chat-history-empty">
+                    {conversations.length === 0
+                        ? `No saved conversations in "${folder}". Save a chat as a note, or turn on auto-save in the settings.`
+                        : "No conversations match your search."}
+                </div>
+            )}
+        </section>
+    );
+});
+
+interface HistoryItemProps {
+    conversation: ConversationSummary;
+    snippet: string | null;
+    onOpen: (conversation: ConversationSummary) => void;
+    onRename: (conversation: ConversationSummary, title: string) => void;
+    onDuplicate: (conversation: ConversationSummary) => void;
+    onDelete: (conversation: ConversationSummary) => void;
+}
+
+const HistoryItem = ({ conversation, snippet, onOpen, onRename, onDuplicate, onDelete }: HistoryItemProps) => {
+    // Null when not renaming; otherwise the draft title.
+    const [draftTitle, setDraftTitle] = useState<string | null>(null);
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+    const commitRename = () => {
+        const title = draftTitle?.trim();
+        setDraftTitle(null);
+        if (title && title !== conversation.title) {
+            onRename(conversation, title);
+        }
+    };
+
+    return (
+        <li className="assistant-chat-history-item">
+            {draftTitle !== null ? (
+                <input
+                    className="assistant-chat-history-rename"
+                    type="text"
+                    value={draftTitle}
+                    autoFocus
+                    aria-label="Conversation title"
+                    onChange={(event) => setDraftTitle(event.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                            event.preventDefault();
+                            commitRename();
+                        } else if (event.key === "Escape") {
+                            event.preventDefault();
+                            setDraftTitle(null);
+                        }
+                    }}
+                />
+            ) : (
+                <button
+                    className="assistant-chat-history-title"
+                    type="button"
+                    onClick={() => onOpen(conversation)}
+                    title={conversation.path}
+                >
+                    {conversation.title}
+                </button>
+            )}
+            <div className="assistant-chat-history-meta">
+                <span>{moment(conversation.createdAt).format("YYYY-MM-DD HH:mm")}</span>
+                <span>{conversation.agentName}</span>
+            </div>
+            {snippet ?? conversation.firstPrompt ? (
+                <div className="assistant-chat-history-preview">{snippet ?? conversation.firstPrompt}</div>
+            ) : null}
+            <div className="assistant-chat-history-actions">
+                {isConfirmingDelete ? (
+                    <>
+                        <span>Move to trash?</span>
+                        <button
+                            className="mod-warning"
+                            type="button"
+                            onClick={() => {
+                                setIsConfirmingDelete(false);
+                                onDelete(conversation);
+                            }}
+                        >
+                            Delete
+                        </button>
+                        <button type="button" onClick={() => setIsConfirmingDelete(false)}>
+                            Cancel
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button type="button" onClick={() => setDraftTitle(conversation.title)}>
+                            Rename
+                        </button>
+                        <button type="button" onClick={() => onDuplicate(conversation)}>
+                            Duplicate
+                        </button>
+                        <button type="button" onClick={() => setIsConfirmingDelete(true)}>
+                            Delete
+                        </button>
+                    </>
+                )}
+            </div>
+        </li>
+    );
+};
@@ -0,0 +1,160 @@
+import { memo, useCallback, useEffect, useRef } from "react";
+import type { MouseEvent } from "react";
+import { Component, Keymap, MarkdownRenderer, Notice } from "obsidian";
+import type { App, HoverParent } from "obsidian";
+import { CHAT_HOVER_SOURCE, MARKDOWN_RENDER_INTERVAL_MS } from "../constants";
+import { splitMarkdownBlocks } from "../utils";
+
+interface MarkdownContentProps {
+    app: App;
+    markdown: string;
+    /** Note that relative links resolve from; the vault root by default. */
+    sourcePath?: string;
+}
+
+type RenderedBlock = {
+    text: string;
+    el: HTMLElement;
+    component: Component;
+};
+
+type RenderState = {
+    parent: Component;
+    blocks: RenderedBlock[];
+    hoverParent: HoverParent;
+};
+
+const addCopyButtons = (el: HTMLElement) => {
+    for (const pre of Array.from(el.querySelectorAll("pre"))) {
+        if (pre.querySelector(".copy-code-button")) {
+            continue;
+        }
+
+        const button = pre.createEl("button", { cls: "copy-code-button", text: "Copy" });
+        button.addEventListener("click", () => {
+            const code = pre.querySelector("code")?.textContent ?? "";
+            navigator.clipboard.writeText(code).then(
+                () => new Notice("Copied to clipboard"),
+                () => new Notice("Could not copy to clipboard")
+            );
+        });
+    }
+};
+
+const findInternalLink = (event: MouseEvent<HTMLElement>): { el: HTMLElement; href: string } | null => {
+    const el = (event.target as HTMLElement).closest<HTMLElement>("a.internal-link");
+    const href = el?.getAttribute("data-href") ?? el?.getAttribute("href");
+    return el && href ? { el, href } : null;
+};
+
+/**
+ * Markdown rendered with Obsidian's renderer. Each top-level block renders
+ * once; while a message streams only its changed tail is re-rendered, at most
+ * once per `MARKDOWN_RENDER_INTERVAL_MS`.
+ */
+export const MarkdownContent = memo(function MarkdownContent({ app, markdown, sourcePath = "" }: MarkdownContentProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const stateRef = useRef<RenderState | null>(null);
+    const latestRef = useRef(markdown);
+    const timerRef = useRef<number | null>(null);
+    const lastRenderRef = useRef(0);
+
+    const renderBlocks = useCallback(() => {
+        timerRef.current = null;
+        lastRenderRef.current = Date.now();
+        const state = stateRef.current;
+        const container = containerRef.current;
+        if (!state || !container) {
+            return;
+        }
+
+        const texts = splitMarkdownBlocks(latestRef.current);
+        let kept = 0;
+        while (kept < state.blocks.length && kept < texts.length && state.blocks[kept]!.text === texts[kept]) {
+            kept++;
+        }
+
+        for (const block of state.blocks.splice(kept)) {
+            state.parent.removeChild(block.component);
+            block.el.remove();
+        }
+
+        for (const text of texts.slice(kept)) {
+            const el = container.createDiv({ cls: "assistant-chat-markdown-block" });
+            const component = state.parent.addChild(new Component());
+            state.blocks.push({ text, el, component });
+            MarkdownRenderer.render(app, text, el, sourcePath, component)
+                .then(() => addCopyButtons(el))
+                .catch((error) => console.warn("Markdown render error", error));
+        }
+    }, [app, sourcePath]);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        const parent = new Component();
+        parent.load();
+        stateRef.current = { parent, blocks: [], hoverParent: { hoverPopover: null } };
+        lastRenderRef.current = 0;
+
+        return () => {
+            if (timerRef.current !== null) {
+                window.clearTimeout(timerRef.current);
+                timerRef.current = null;
+            }
+            parent.unload();
+            stateRef.current = null;
+            container?.empty();
+        };
+    }, [renderBlocks]);
+
+    useEffect(() => {
+        latestRef.current = markdown;
+        if (timerRef.current !== null) {
+            // The scheduled render picks up the latest text.
+            return;
+        }
+
+        const wait = lastRenderRef.current + MARKDOWN_RENDER_INTERVAL_MS - Date.now();
+        if (wait <= 0) {
+            renderBlocks();
+        } else {
+            timerRef.current = window.setTimeout(renderBlocks, wait);
+        }
+    }, [markdown, renderBlocks]);
+
+    const handleClick = useCallback((event: MouseEvent<HTMLDivElement>) => {
+        const link = findInternalLink(event);
+        if (!link) {
+            return;
+        }
+
+        event.preventDefault();
+        void app.workspace.openLinkText(link.href, sourcePath, Keymap.isModEvent(event.nativeEvent));
+    }, [app, sourcePath]);
+
+    const handleMouseOver = useCallback((event: MouseEvent<HTMLDivElement>) => {
+        const link = findInternalLink(event);
+        const state = stateRef.current;
+        if (!link || !state) {
+            return;
+        }
+
+        app.workspace.trigger("hover-link", {
+            event: event.nativeEvent,
+            source: CHAT_HOVER_SOURCE,
+            hoverParent: state.hoverParent,
+            targetEl: link.el,
+            linktext: link.href,
+            sourcePath
+        });
+    }, [app, sourcePath]);
+
+    return (
+        <div
+            ref={containerRef}
+            className="assistant-chat-markdown markdown-rendered"
+            onClick={handleClick}
+            onMouseOver={handleMouseOver}
+        />
+    );
+});
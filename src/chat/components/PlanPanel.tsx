@@ -0,0 +1,157 @@
+import { memo, useEffect, useMemo, useState } from "react";
+import type { PlanEntry, PlanEntryStatus } from "@agentclientprotocol/sdk";
+import type { PlanSnapshot } from "../types";
+
+interface PlanPanelProps {
+    history: PlanSnapshot[];
+}
+
+const STATUS_LABELS: Record<PlanEntryStatus, string> = {
+    pending: "Pending",
+    in_progress: "In progress",
+    completed: "Completed"
+};
+
+const STATUS_MARKERS: Record<PlanEntryStatus, string> = {
+    pending: "○",
+    in_progress: "◐",
+    completed: "●"
+};
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+/** Entries that are new or whose status or priority differs from the previous version. */
+const findChangedEntries = (entries: PlanEntry[], previous: PlanEntry[] | null): Set<number> => {
+    const changed = new Set<number>();
+    if (!previous) {
+        return changed;
+    }
+
+    const before = new Map(previous.map((entry) => [entry.content, entry]));
+    entries.forEach((entry, index) => {
+        const prior = before.get(entry.content);
+        if (!prior || prior.status !== entry.status || prior.priority !== entry.priority) {
+            changed.add(index);
+        }
+    });
+    return changed;
+};
+
+export const PlanPanel = memo(function PlanPanel({ history }: PlanPanelProps) {
+    const [isExpanded, setIsExpanded] = useState(true);
+    // Null follows the latest version; an index pins an older one.
+    const [viewIndex, setViewIndex] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (history.length === 0) {
+            setViewIndex(null);
+        }
+    }, [history.length]);
+
+    const latestIndex = history.length - 1;
+    const index = viewIndex === null ? latestIndex : Math.min(viewIndex, latestIndex);
+    const snapshot = history[index];
+    const previous = index > 0 ? history[index - 1]!.entries : null;
+    const changed = useMemo(
+        () => (snapshot ? findChangedEntries(snapshot.entries, previous) : new Set<number>()),
+        [snapshot, previous]
+    );
+
+    if (!snapshot) {
+        return null;
+    }
+
+    const completed = snapshot.entries.filter((entry) => entry.status === "completed").length;
+    const isLatest = index === latestIndex;
+
+    const showVersion = (next: number) => {
+        setViewIndex(next >= latestIndex ? null : Math.max(0, next));
+    };
+
+    return (
+        <section className="assistant-chat-plan" aria-label="Agent plan">
+            <button
+                className="assistant-chat-plan-toggle"
+                type="button"
+                aria-expanded={isExpanded}
+                onClick={() => setIsExpanded((prev) => !prev)}
+            >
+                <span className="assistant-chat-plan-chevron" aria-hidden="true">
+                    {isExpanded ? "▾" : "▸"}
+                </span>
+                <span className="assistant-chat-plan-title">Plan</span>
+                <span className="assistant-chat-plan-progress">
+                    {completed}/{snapshot.entries.length} done
+                </span>
+                {!isLatest ? (
+                    <span className="assistant-chat-plan-progress">(earlier version)</span>
+                ) : null}
+            </button>
+            {isExpanded ? (
+                <>
+                    {history.length > 1 ? (
+                        <div className="assistant-chat-plan-history">
+                            <button
+                                className="assistant-chat-plan-history-button"
+                                type="button"
+                                disabled={index === 0}
+                                onClick={() => showVersion(index - 1)}
+                                aria-label="Previous plan version"
+                            >
+                                ‹
+                            </button>
+                            <span className="assistant-chat-plan-history-label">
+                                Version {index + 1} of {history.length} · {formatTime(snapshot.receivedAt)}
+                            </span>
+                            <button
+                                className="assistant-chat-plan-history-button"
+                                type="button"
+                                disabled={isLatest}
+                                onClick={() => showVersion(index + 1)}
+                                aria-label="Next plan version"
+                            >
+                                ›
+                            </button>
+                            {!isLatest ? (
+                                <button
+                                    className="assistant-chat-plan-history-button"
+                                    type="button"
+                                    onClick={() => setViewIndex(null)}
+                                >
+                                    Latest
+                                </button>
+                            ) : null}
+                        </div>
+                    ) : null}
+                    {snapshot.entries.length === 0 ? (
+                        <div className="assistant-chat-plan-empty">The plan is empty.</div>
+                    ) : (
+                        <ol className="assistant-chat-plan-entries">
+                            {snapshot.entries.map((entry, entryIndex) => (
+                                <li
+                                    key={entryIndex}
+                                    className={`assistant-chat-plan-entry is-${entry.status}${
+                                        changed.has(entryIndex) ? " is-changed" : ""
+                                    }`}
+                                >
+                                    <span
+                                        className="assistant-chat-plan-status"
+                                        title={STATUS_LABELS[entry.status]}
+                                        aria-label={STATUS_LABELS[entry.status]}
+                                    >
+                                        {STATUS_MARKERS[entry.status]}
+                                    </span>
+                                    <span className="assistant-chat-plan-content">{entry.content}</span>
+                                    <span className={`assistant-chat-plan-priority is-${entry.priority}`}>
+                                        {entry.priority}
+                                    </span>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </>
+            ) : null}
+        </section>
+    );
+});
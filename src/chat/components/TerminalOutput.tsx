@@ -0,0 +1,38 @@
+import { memo } from "react";
+import type { TerminalSnapshot } from "acp/terminals";
+
+interface TerminalOutputProps {
+    label: string;
+    terminal?: TerminalSnapshot;
+}
+
+export const TerminalOutput = memo(function TerminalOutput({ label, terminal }: TerminalOutputProps) {
+    const exitStatus = terminal?.exitStatus;
+    const statusLabel = !terminal
+        ? "Waiting"
+        : !exitStatus
+            ? "Running"
+            : exitStatus.signal
+                ? `Killed (${exitStatus.signal})`
+                : `Exited ${exitStatus.exitCode ?? "?"}`;
+    const tone = !exitStatus ? "busy" : exitStatus.exitCode === 0 ? "ready" : "error";
+
+    return (
+        <div className="assistant-chat-terminal">
+            <div className="assistant-chat-terminal-header">
+                <code className="assistant-chat-terminal-command">
+                    {terminal?.command ?? label}
+                </code>
+                <span className={`assistant-chat-terminal-status is-${tone}`}>
+                    {statusLabel}
+                </span>
+            </div>
+            {terminal?.truncated ? (
+                <div className="assistant-chat-terminal-note">Earlier output truncated</div>
+            ) : null}
+            {terminal?.output ? (
+                <pre className="assistant-chat-terminal-output">{terminal.output}</pre>
+            ) : null}
+        </div>
+    );
+});
@@ -0,0 +1,49 @@
+import { memo, useState } from "react";
+import type { ChatMessage } from "../types";
+
+interface ThoughtBlockProps {
+    message: ChatMessage;
+    defaultExpanded: boolean;
+}
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+
+    const minutes = Math.floor(seconds / 60);
+    return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
+
+export const ThoughtBlock = memo(function ThoughtBlock({ message, defaultExpanded }: ThoughtBlockProps) {
+    // Null follows the thinking setting until the user toggles this block.
+    const [expanded, setExpanded] = useState<boolean | null>(null);
+    const isExpanded = expanded ?? defaultExpanded;
+    const elapsed = (message.endedAt ?? 0) - (message.startedAt ?? 0);
+    const duration = elapsed >= 1000 ? formatDuration(elapsed) : null;
+    const label = message.isStreaming
+        ? `Thinking…${duration ? ` ${duration}` : ""}`
+        : duration
+            ? `Thought for ${duration}`
+            : "Thought";
+
+    return (
+        <article className={`assistant-chat-thought${message.isStreaming ? " is-streaming" : ""}`}>
+            <button
+                className="assistant-chat-thought-toggle"
+                type="button"
+                aria-expanded={isExpanded}
+                onClick={() => setExpanded(!isExpanded)}
+            >
+                <span className="assistant-chat-thought-chevron" aria-hidden="true">
+                    {isExpanded ? "▾" : "▸"}
+                </span>
+                <span className="assistant-chat-thought-label">{label}</span>
+            </button>
+            {isExpanded ? (
+                <div className="assistant-chat-thought-content">{message.content}</div>
+            ) : null}
+        </article>
+    );
+});
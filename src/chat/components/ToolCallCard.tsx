@@ -0,0 +1,199 @@
+import { memo, useEffect, useMemo, useRef, useState } from "react";
+import type { ImageContent, ToolCallContent, ToolCallStatus, ToolKind } from "@agentclientprotocol/sdk";
+import { setIcon } from "obsidian";
+import type { TerminalSnapshot } from "acp/terminals";
+import { buildHunks, countChanges, diffLines } from "acp/diff";
+import type { ToolCallState } from "../types";
+import { formatRawValue } from "../utils";
+import { ContentBlockView } from "./ContentBlockView";
+import { DiffView } from "./DiffView";
+import { TerminalOutput } from "./TerminalOutput";
+
+const KIND_ICONS: Record<ToolKind, string> = {
+    read: "file-text",
+    edit: "pencil",
+    delete: "trash-2",
+    move: "move",
+    search: "search",
+    execute: "terminal",
+    think: "brain",
+    fetch: "globe",
+    switch_mode: "toggle-left",
+    other: "wrench"
+};
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+    pending: "Pending",
+    in_progress: "Running",
+    completed: "Done",
+    failed: "Failed"
+};
+
+interface ToolCallCardProps {
+    toolCall: ToolCallState;
+    terminals: Record<string, TerminalSnapshot>;
+    /** Vault path for an agent path, or null when it is outside the vault. */
+    resolveVaultPath: (path: string) => string | null;
+    onOpenFile: (path: string, line?: number) => void;
+    onSaveImage: (image: ImageContent) => void;
+}
+
+export const ToolCallCard = memo(function ToolCallCard({
+    toolCall,
+    terminals,
+    resolveVaultPath,
+    onOpenFile,
+    onSaveImage,
+}: ToolCallCardProps) {
+    // Null until the user toggles it: calls stay open while they run, show a
+    // running terminal or have failed, and fold once they complete.
+    const [expanded, setExpanded] = useState<boolean | null>(null);
+    const hasRunningTerminal = toolCall.content.some((item) =>
+        item.type === "terminal" && terminals[item.terminalId]?.exitStatus === null
+    );
+    const isExpanded = expanded ?? (toolCall.status !== "completed" || hasRunningTerminal);
+    const iconRef = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+        if (iconRef.current) {
+            setIcon(iconRef.current, KIND_ICONS[toolCall.kind] ?? KIND_ICONS.other);
+        }
+    }, [toolCall.kind]);
+
+    const hasRawInput = toolCall.rawInput !== undefined && toolCall.rawInput !== null;
+    const hasRawOutput = toolCall.rawOutput !== undefined && toolCall.rawOutput !== null;
+
+    return (
+        <article className={`assistant-chat-tool-call is-${toolCall.status}`}>
+            <button
+                className="assistant-chat-tool-call-header"
+                type="button"
+                aria-expanded={isExpanded}
+                onClick={() => setExpanded(!isExpanded)}
+            >
+                <span className="assistant-chat-tool-call-chevron" aria-hidden="true">
+                    {isExpanded ? "▾" : "▸"}
+                </span>
+                <span className="assistant-chat-tool-call-icon" ref={iconRef} aria-label={toolCall.kind} />
+                <span className="assistant-chat-tool-call-title">{toolCall.title}</span>
+                <span className={`assistant-chat-tool-call-status is-${toolCall.status}`}>
+                    {STATUS_LABELS[toolCall.status]}
+                </span>
+            </button>
+            {isExpanded ? (
+                <div className="assistant-chat-tool-call-body">
+                    {toolCall.locations.length > 0 ? (
+                        <ul className="assistant-chat-tool-call-locations">
+                            {toolCall.locations.map((location, index) => {
+                                const vaultPath = resolveVaultPath(location.path);
+                                const line = location.line ?? undefined;
+                                const label = `${vaultPath ?? location.path}${line ? `:${line}` : ""}`;
+                                return (
+                                    <li key={index}>
+                                        {vaultPath ? (
+                                            <a
+                                                className="internal-link"
+                                                href="#"
+                                                onClick={(event) => {
+                                                    event.preventDefault();
+                                                    onOpenFile(vaultPath, line);
+                                                }}
+                                            >
+                                                {label}
+                                            </a>
+                                        ) : (
+                                            <code>{label}</code>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    ) : null}
+                    {hasRawInput ? (
+                        <RawValue label="Input" value={toolCall.rawInput} />
+                    ) : null}
+                    {toolCall.content.map((item, index) => (
+                        <ToolCallContentItem
+                            key={index}
+                            item={item}
+                            terminals={terminals}
+                            resolveVaultPath={resolveVaultPath}
+                            onOpenFile={onOpenFile}
+                            onSaveImage={onSaveImage}
+                        />
+                    ))}
+                    {hasRawOutput ? (
+                        <RawValue label="Output" value={toolCall.rawOutput} />
+                    ) : null}
+                </div>
+            ) : null}
+        </article>
+    );
+});
+
+const RawValue = ({ label, value }: { label: string; value: unknown }) => (
+    <div className="assistant-chat-tool-call-section">
+        <div className="assistant-chat-tool-call-label">{label}</div>
+        <pre className="assistant-chat-tool-call-raw">{formatRawValue(value)}</pre>
+    </div>
+);
+
+interface ToolCallContentItemProps {
+    item: ToolCallContent;
+    terminals: Record<string, TerminalSnapshot>;
+    resolveVaultPath: (path: string) => string | null;
+    onOpenFile: (path: string, line?: number) => void;
+    onSaveImage: (image: ImageContent) => void;
+}
+
+const ToolCallContentItem = ({
+    item,
+    terminals,
+    resolveVaultPath,
+    onOpenFile,
+    onSaveImage,
+}: ToolCallContentItemProps) => {
+    if (item.type === "terminal") {
+        return <TerminalOutput label="Terminal" terminal={terminals[item.terminalId]} />;
+    }
+
+    if (item.type === "diff") {
+        return (
+            <ToolCallDiff
+                path={resolveVaultPath(item.path) ?? item.path}
+                oldText={item.oldText ?? null}
+                newText={item.newText}
+            />
+        );
+    }
+
+    return (
+        <ContentBlockView
+            block={item.content}
+            resolveVaultPath={resolveVaultPath}
+            onOpenFile={onOpenFile}
+            onSaveImage={onSaveImage}
+        />
+    );
+};
+
+interface ToolCallDiffProps {
+    path: string;
+    oldText: string | null;
+    newText: string;
+}
+
+const ToolCallDiff = ({ path, oldText, newText }: ToolCallDiffProps) => {
+    const lines = useMemo(() => diffLines(oldText ?? "", newText), [oldText, newText]);
+    const hunks = useMemo(() => buildHunks(lines), [lines]);
+    const { added, removed } = countChanges(lines);
+
+    return (
+        <div className="assistant-chat-tool-call-section">
+            <div className="assistant-chat-tool-call-label">
+                {oldText === null ? "New file" : "Edit"} {path} · +{added} −{removed}
+            </div>
+            <DiffView hunks={hunks} />
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import { memo } from "react";
+import type { ToolCallFilter } from "../types";
+
+interface ToolCallFilterBarProps {
+    filter: ToolCallFilter;
+    total: number;
+    shown: number;
+    onChange: (filter: ToolCallFilter) => void;
+}
+
+const STATUS_OPTIONS: { value: ToolCallFilter["status"]; label: string }[] = [
+    { value: "all", label: "All statuses" },
+    { value: "pending", label: "Pending" },
+    { value: "in_progress", label: "Running" },
+    { value: "completed", label: "Done" },
+    { value: "failed", label: "Failed" }
+];
+
+export const ToolCallFilterBar = memo(function ToolCallFilterBar({
+    filter,
+    total,
+    shown,
+    onChange,
+}: ToolCallFilterBarProps) {
+    return (
+        <div className="assistant-chat-tool-filter">
+            <input
+                className="assistant-chat-tool-filter-query"
+                type="search"
+                placeholder="Filter tool calls"
+                value={filter.query}
+                onChange={(event) => onChange({ ...filter, query: event.target.value })}
+                aria-label="Filter tool calls by title, kind or path"
+            />
+            <select
+                className="assistant-chat-tool-filter-status dropdown"
+                value={filter.status}
+                onChange={(event) =>
+                    onChange({ ...filter, status: event.target.value as ToolCallFilter["status"] })
+                }
+                aria-label="Filter tool calls by status"
+            >
+                {STATUS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                        {option.label}
+                    </option>
+                ))}
+            </select>
+            <span className="assistant-chat-tool-filter-count">
+                {shown === total ? `${total} tool calls` : `${shown} of ${total} tool calls`}
+            </span>
+        </div>
+    );
+});
@@ -0,0 +1,156 @@
+import { memo, useEffect, useMemo, useState } from "react";
+import type { WriteReviewRequest } from "acp/writeReview";
+import { buildHunks, countChanges, diffLines } from "acp/diff";
+import { CONFLICT_MARKERS } from "acp/merge";
+import { DiffView } from "./DiffView";
+
+interface WriteReviewCardProps {
+    request: WriteReviewRequest;
+    pendingCount: number;
+    onAccept: (content?: string) => void;
+    onReject: () => void;
+}
+
+export const WriteReviewCard = memo(function WriteReviewCard({
+    request,
+    pendingCount,
+    onAccept,
+    onReject,
+}: WriteReviewCardProps) {
+    const conflict = request.conflict ?? null;
+    // With a conflict the diff shows what the merge changes in the user's version.
+    const proposed = conflict ? conflict.mergedContent : request.newContent;
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(proposed);
+
+    useEffect(() => {
+        setIsEditing(false);
+        setDraft(request.conflict ? request.conflict.mergedContent : request.newContent);
+    }, [request]);
+
+    const lines = useMemo(
+        () => diffLines(request.oldContent ?? "", proposed),
+        [request, proposed]
+    );
+    const hunks = useMemo(() => buildHunks(lines), [lines]);
+    const { added, removed } = countChanges(lines);
+    const isNewFile = request.oldContent === null;
+    const hasMarkers = draft.split(/\r?\n/).includes(CONFLICT_MARKERS.ours);
+    const title = conflict ? "Resolve write conflict" : isNewFile ? "Review new file" : "Review write";
+
+    return (
+        <div className="assistant-chat-permission assistant-chat-write-review" role="alert" aria-live="assertive">
+            <div className="assistant-chat-permission-header">
+                <div>
+                    <h2 className="assistant-chat-permission-title">
+                        {title}
+                    </h2>
+                    <div className="assistant-chat-permission-meta">{request.path}</div>
+                    {conflict ? (
+                        <div className="assistant-chat-permission-meta">
+                            {conflict.conflicts === 0
+                                ? "Changed after the agent read it. The edits merge cleanly."
+                                : `Changed after the agent read it. ${conflict.conflicts} conflicting ${
+                                    conflict.conflicts === 1 ? "region" : "regions"
+                                } need resolving.`}
+                        </div>
+                    ) : null}
+                    <div className="assistant-chat-permission-id">
+                        +{added} −{removed}
+                    </div>
+                </div>
+                {pendingCount > 0 ? (
+                    <div className="assistant-chat-permission-queue">
+                        {pendingCount} more pending
+                    </div>
+                ) : null}
+            </div>
+            {isEditing && hasMarkers ? (
+                <div className="assistant-chat-permission-meta">
+                    Remove the conflict markers before applying.
+                </div>
+            ) : null}
+            {isEditing ? (
+                <textarea
+                    className="assistant-chat-write-review-editor"
+                    value={draft}
+                    onChange={(event) => setDraft(event.target.value)}
+                    aria-label="Content to write"
+                />
+            ) : (
+                <DiffView hunks={hunks} />
+            )}
+            <div className="assistant-chat-permission-options">
+                {isEditing ? (
+                    <>
+                        <button
+                            className="assistant-chat-permission-option is-allow"
+                            type="button"
+                            disabled={hasMarkers}
+                            onClick={() => onAccept(draft === request.newContent ? undefined : draft)}
+                        >
+                            Apply edited
+                        </button>
+                        <button
+                            className="assistant-chat-permission-option"
+                            type="button"
+                            onClick={() => setIsEditing(false)}
+                        >
+                            Back to diff
+                        </button>
+                    </>
+                ) : conflict ? (
+                    <>
+                        {conflict.conflicts === 0 ? (
+                            <button
+                                className="assistant-chat-permission-option is-allow"
+                                type="button"
+                                onClick={() => onAccept(conflict.mergedContent)}
+                            >
+                                Apply merge
+                            </button>
+                        ) : null}
+                        <button
+                            className="assistant-chat-permission-option"
+                            type="button"
+                            onClick={() => setIsEditing(true)}
+                        >
+                            {conflict.conflicts === 0 ? "Edit merge" : "Resolve manually"}
+                        </button>
+                        <button
+                            className="assistant-chat-permission-option"
+                            type="button"
+                            onClick={() => onAccept()}
+                        >
+                            Use agent version
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button
+                            className="assistant-chat-permission-option is-allow"
+                            type="button"
+                            onClick={() => onAccept()}
+                        >
+                            Accept
+                        </button>
+                        <button
+                            className="assistant-chat-permission-option"
+                            type="button"
+                            onClick={() => setIsEditing(true)}
+                        >
+                            Edit
+                        </button>
+                    </>
+                )}
+                <button
+                    className="assistant-chat-permission-option is-reject"
+                    type="button"
+                    onClick={onReject}
+                >
+                    {conflict ? "Keep mine" : "Reject"}
+                </button>
+            </div>
+        </div>
+    );
+});
@@ -5,3 +5,15 @@ export { AttachmentList, AttachmentItem } from "./AttachmentList";
 export { SelectionAttachmentItem } from "./SelectionAttachmentItem";
 export { ChatError } from "./ChatError";
 export { ChatInput } from "./ChatInput";
+export { TerminalOutput } from "./TerminalOutput";
+export { WriteReviewCard } from "./WriteReviewCard";
+export { ConfigOptionsPopover } from "./ConfigOptionsPopover";
+export { CommandPalette } from "./CommandPalette";
+export { PlanPanel } from "./PlanPanel";
+export { DiffView } from "./DiffView";
+export { ToolCallCard } from "./ToolCallCard";
+export { ToolCallFilterBar } from "./ToolCallFilterBar";
+export { ThoughtBlock } from "./ThoughtBlock";
+export { MarkdownContent } from "./MarkdownContent";
+export { ContentBlockView } from "./ContentBlockView";
+export { HistoryPanel } from "./HistoryPanel";
@@ -39,4 +39,24 @@ export const TEXT_EXTENSIONS = new Set([
     "sql",
 ]);
 
+// Binary attachments sent as image or audio blocks when the agent accepts them.
+export const MEDIA_MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    ogg: "audio/ogg",
+    m4a: "audio/mp4",
+    flac: "audio/flac",
+};
+
 export const MAX_SELECTION_SIZE = 10 * 1024;
+
+// Source id of chat links for the Page preview core plugin.
+export const CHAT_HOVER_SOURCE = "assistant-chat";
+
+// Minimum gap between re-renders of a streaming Markdown message.
+export const MARKDOWN_RENDER_INTERVAL_MS = 120;
@@ -4,3 +4,13 @@ export { useAttachments } from "./useAttachments";
 export { useDragDrop } from "./useDragDrop";
 export { useKeyboardShortcuts } from "./useKeyboardShortcuts";
 export { useSelectedText } from "./useSelectedText";
+export { useTerminals } from "./useTerminals";
+export { useWriteReviews } from "./useWriteReviews";
+export { useAuthentication } from "./useAuthentication";
+export { useSessionModes } from "./useSessionModes";
+export { useConfigOptions } from "./useConfigOptions";
+export { useAvailableCommands } from "./useAvailableCommands";
+export { usePlan } from "./usePlan";
+export { useToolCalls } from "./useToolCalls";
+export { useConversationNote } from "./useConversationNote";
+export { useConversationHistory } from "./useConversationHistory";
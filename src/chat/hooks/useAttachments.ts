@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { App, TFile, Modal } from "obsidian";
-import type { ContentBlock } from "@agentclientprotocol/sdk";
+import { App, TFile, Modal, arrayBufferToBase64 } from "obsidian";
+import type { ContentBlock, PromptCapabilities } from "@agentclientprotocol/sdk";
 import type { Attachment, AttachmentSource, ChatMessageRole, SelectionAttachment, InlineAttachment, ReferenceAttachment } from "../types";
 
 class FileSelectModal extends Modal {
@@ -37,6 +37,7 @@ class FileSelectModal extends Modal {
 import {
     createMessageId,
     formatError,
+    getMediaMimeType,
     isTextFile,
     INLINE_ATTACHMENT_LIMIT,
     resolveObsidianOpenUrl,
@@ -233,8 +234,46 @@ export const useAttachments = ({
         modal.open();
     }, [addAttachmentFromFile, app]);
 
+    /**
+     * Reads an image or audio attachment as a content block when the agent
+     * accepts that media type; null keeps it as a resource link.
+     */
+    const readMediaBlock = useCallback(
+        async (attachment: ReferenceAttachment, capabilities: PromptCapabilities): Promise<ContentBlock | null> => {
+            const mimeType = getMediaMimeType(attachment.path);
+            const isImage = mimeType?.startsWith("image/") ?? false;
+            if (!mimeType || attachment.size > INLINE_ATTACHMENT_LIMIT || !(isImage ? capabilities.image : capabilities.audio)) {
+                return null;
+            }
+
+            const file = app.vault.getAbstractFileByPath(attachment.path);
+            if (!(file instanceof TFile)) {
+                return null;
+            }
+
+            try {
+                const data = arrayBufferToBase64(await app.vault.readBinary(file));
+                return isImage
+                    ? { type: "image", data, mimeType, uri: toVaultUri(attachment.path) }
+                    : { type: "audio", data, mimeType };
+            } catch (error) {
+                onMessage("system", `Attachment read failed for ${attachment.path}: ${formatError(error)}`);
+                return null;
+            }
+        },
+        [app, onMessage]
+    );
+
+    /**
+     * Embedded resources are sent as-is; the client rewrites them for agents
+     * without `embeddedContext` support.
+     */
     const buildPromptBlocks = useCallback(
-        async (text: string, currentAttachments: Attachment[]): Promise<ContentBlock[]> => {
+        async (
+            text: string,
+            currentAttachments: Attachment[],
+            capabilities: PromptCapabilities = {}
+        ): Promise<ContentBlock[]> => {
             const blocks: ContentBlock[] = [];
             const trimmed = text.trim();
 
@@ -270,7 +309,8 @@ export const useAttachments = ({
                     continue;
                 }
 
-                blocks.push({
+                const media = await readMediaBlock(attachment, capabilities);
+                blocks.push(media ?? {
                     type: "resource_link",
                     uri,
                     name: attachment.name,
@@ -280,7 +320,7 @@ export const useAttachments = ({
 
             return blocks;
         },
-        []
+        [readMediaBlock]
     );
 
     return {
@@ -0,0 +1,78 @@
+import { useEffect } from "react";
+import { App, Modal } from "obsidian";
+import type { AcpSession } from "acp/session";
+import type { AuthRequest } from "acp/auth";
+import type { ChatMessageRole } from "../types";
+
+class AuthMethodModal extends Modal {
+    private chosen: string | null = null;
+
+    constructor(
+        app: App,
+        private request: AuthRequest,
+        private onDone: (methodId: string | null) => void
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.setTitle(`Sign in to ${this.request.agentName}`);
+
+        contentEl.createEl("p", { text: this.request.message });
+        contentEl.createEl("p", { text: "Choose how the agent should authenticate:" });
+
+        const list = contentEl.createDiv({ cls: "assistant-auth-methods" });
+        for (const method of this.request.methods) {
+            const button = list.createEl("button", { cls: "assistant-auth-method", text: method.name });
+            if (method.description) {
+                button.createDiv({ cls: "assistant-auth-method-description", text: method.description });
+            }
+            button.addEventListener("click", () => {
+                this.chosen = method.id;
+                this.close();
+            });
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.onDone(this.chosen);
+    }
+}
+
+interface UseAuthenticationProps {
+    app: App;
+    session: AcpSession;
+    onMessage: (role: ChatMessageRole, content: string) => void;
+}
+
+/**
+ * Answers the agent's auth-required errors with a modal listing its
+ * `authMethods`; the client then authenticates and retries the session.
+ */
+export const useAuthentication = ({ app, session, onMessage }: UseAuthenticationProps) => {
+    useEffect(() => {
+        let openModal: AuthMethodModal | null = null;
+        const unsubscribe = session.subscribeAuthRequests((request) => {
+            return new Promise<string | null>((resolve) => {
+                openModal = new AuthMethodModal(app, request, (methodId) => {
+                    openModal = null;
+                    const method = request.methods.find((item) => item.id === methodId);
+                    onMessage(
+                        "system",
+                        method ? `Authenticating with ${method.name}` : "Authentication cancelled."
+                    );
+                    resolve(methodId);
+                });
+                openModal.open();
+            });
+        });
+
+        return () => {
+            unsubscribe();
+            openModal?.close();
+        };
+    }, [app, session, onMessage]);
+};
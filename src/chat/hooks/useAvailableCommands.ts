@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import type { AvailableCommand } from "@agentclientprotocol/sdk";
+import type { AcpSession } from "acp/session";
+
+export const useAvailableCommands = ({ session }: { session: AcpSession }) => {
+    const [commands, setCommands] = useState<AvailableCommand[]>(() => session.getAvailableCommands());
+
+    useEffect(() => {
+        setCommands(session.getAvailableCommands());
+        return session.subscribeAvailableCommands(setCommands);
+    }, [session]);
+
+    return { commands };
+};
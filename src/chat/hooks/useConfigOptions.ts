@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SessionConfigOption } from "@agentclientprotocol/sdk";
+import type { AcpSession } from "acp/session";
+import type { ChatMessageRole } from "../types";
+import { formatError } from "../utils";
+
+interface UseConfigOptionsProps {
+    session: AcpSession;
+    onMessage: (role: ChatMessageRole, content: string) => void;
+}
+
+export const useConfigOptions = ({ session, onMessage }: UseConfigOptionsProps) => {
+    const [configOptions, setConfigOptions] = useState<SessionConfigOption[] | null>(
+        () => session.getConfigOptions()
+    );
+
+    useEffect(() => {
+        setConfigOptions(session.getConfigOptions());
+        return session.subscribeConfigOptions(setConfigOptions);
+    }, [session]);
+
+    const handleConfigOptionChange = useCallback(async (configId: string, value: string) => {
+        try {
+            await session.setConfigOption(configId, value);
+        } catch (error) {
+            onMessage("system", `Setting change failed: ${formatError(error)}`);
+        }
+    }, [onMessage, session]);
+
+    return { configOptions, handleConfigOptionChange };
+};
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from "react";
+import { debounce, normalizePath } from "obsidian";
+import type { App, TAbstractFile } from "obsidian";
+import {
+    duplicateConversationNote,
+    listConversationNotes,
+    renameConversationNote,
+} from "conversationNotes";
+import type { ConversationSummary } from "conversationNotes";
+import { formatError } from "../utils";
+
+interface UseConversationHistoryProps {
+    app: App;
+    folder: string;
+    /** The list loads and follows vault changes only while the panel is open. */
+    enabled: boolean;
+}
+
+export const useConversationHistory = ({ app, folder, enabled }: UseConversationHistoryProps) => {
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setConversations(await listConversationNotes(app, folder));
+            setError(null);
+        } catch (err) {
+            setError(`Could not load conversations: ${formatError(err)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [app, folder]);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+
+        void reload();
+        const prefix = `${normalizePath(folder)}/`;
+        const scheduleReload = debounce(() => {
+            void reload();
+        }, 300, true);
+        const onFileChange = (file: TAbstractFile, oldPath?: string) => {
+            if (file.path.startsWith(prefix) || oldPath?.startsWith(prefix)) {
+                scheduleReload();
+            }
+        };
+
+        // Metadata changes arrive after frontmatter is parsed, unlike vault modify events.
+        const refs = [
+            app.metadataCache.on("changed", onFileChange),
+            app.vault.on("delete", onFileChange),
+            app.vault.on("rename", onFileChange)
+        ];
+        return () => {
+            scheduleReload.cancel();
+            app.metadataCache.offref(refs[0]!);
+            app.vault.offref(refs[1]!);
+            app.vault.offref(refs[2]!);
+        };
+    }, [app, enabled, folder, reload]);
+
+    const runAction = useCallback(async (label: string, action: () => Promise<unknown>) => {
+        try {
+            await action();
+            setError(null);
+        } catch (err) {
+            setError(`${label} failed: ${formatError(err)}`);
+        }
+        await reload();
+    }, [reload]);
+
+    const withFile = useCallback((conversation: ConversationSummary) => {
+        const file = app.vault.getFileByPath(conversation.path);
+        if (!file) {
+            throw new Error(`${conversation.path} no longer exists`);
+        }
+        return file;
+    }, [app]);
+
+    const renameConversation = useCallback((conversation: ConversationSummary, title: string) =>
+        runAction("Rename", () => renameConversationNote(app, withFile(conversation), title)),
+    [app, runAction, withFile]);
+
+    const duplicateConversation = useCallback((conversation: ConversationSummary) =>
+        runAction("Duplicate", () => duplicateConversationNote(app, withFile(conversation))),
+    [app, runAction, withFile]);
+
+    const deleteConversation = useCallback((conversation: ConversationSummary) =>
+        runAction("Delete", () => app.fileManager.trashFile(withFile(conversation))),
+    [app, runAction, withFile]);
+
+    return {
+        conversations,
+        isLoading,
+        error,
+        renameConversation,
+        duplicateConversation,
+        deleteConversation
+    };
+};
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SessionNotification } from "@agentclientprotocol/sdk";
+import type { App, TFile } from "obsidian";
+import type { AcpSession } from "acp/session";
+import { findConversationNote, writeConversationNote } from "conversationNotes";
+import type { ChatMessage, ChatMessageRole, ToolCallState } from "../types";
+import { formatError } from "../utils";
+
+interface UseConversationNoteProps {
+    app: App;
+    session: AcpSession;
+    messages: ChatMessage[];
+    toolCalls: Record<string, ToolCallState>;
+    isSending: boolean;
+    folder: string;
+    autoSave: boolean;
+    resolveVaultPath: (path: string) => string | null;
+    onMessage: (role: ChatMessageRole, content: string) => void;
+}
+
+/**
+ * Keeps the conversation's note in sync: written after each turn when
+ * auto-save is on, or on demand through `saveConversation`.
+ */
+export const useConversationNote = ({
+    app,
+    session,
+    messages,
+    toolCalls,
+    isSending,
+    folder,
+    autoSave,
+    resolveVaultPath,
+    onMessage,
+}: UseConversationNoteProps) => {
+    const [title, setTitle] = useState<string | null>(null);
+    const [attachments, setAttachments] = useState<string[]>([]);
+    const noteRef = useRef<TFile | null>(null);
+    const createdAtRef = useRef<number | null>(null);
+    const wasSendingRef = useRef(false);
+    // Saving reads the latest transcript, not the one from when it was scheduled.
+    const latestRef = useRef({ messages, toolCalls, title, attachments });
+    const isEmpty = messages.length === 0;
+
+    useEffect(() => {
+        latestRef.current = { messages, toolCalls, title, attachments };
+    }, [messages, toolCalls, title, attachments]);
+
+    useEffect(() => {
+        if (isEmpty) {
+            // A cleared transcript is a new conversation; a resumed one finds its note by session id.
+            noteRef.current = null;
+            createdAtRef.current = null;
+            setTitle(null);
+            setAttachments([]);
+        } else if (createdAtRef.current === null) {
+            createdAtRef.current = Date.now();
+        }
+    }, [isEmpty]);
+
+    useEffect(() => {
+        return session.subscribeSessionUpdates((notification: SessionNotification) => {
+            const update = notification.update;
+            if (update.sessionUpdate === "session_info_update" && update.title) {
+                setTitle(update.title);
+            }
+        });
+    }, [session]);
+
+    const addAttachedPaths = useCallback((paths: string[]) => {
+        setAttachments((prev) => [...new Set([...prev, ...paths])]);
+    }, []);
+
+    /** Writes the note and returns its path, or null when there is nothing to save. */
+    const saveConversation = useCallback(async (): Promise<string | null> => {
+        const latest = latestRef.current;
+        if (latest.messages.length === 0) {
+            return null;
+        }
+
+        const sessionId = session.getSessionId();
+        let existing = noteRef.current && app.vault.getFileByPath(noteRef.current.path);
+        if (!existing && sessionId) {
+            existing = findConversationNote(app, folder, sessionId);
+        }
+
+        const profile = session.getProfile();
+        const note = await writeConversationNote(app, folder, {
+            sessionId,
+            agentName: profile.name,
+            agentProfileId: profile.id,
+            title: latest.title,
+            createdAt: createdAtRef.current ?? Date.now(),
+            updatedAt: Date.now(),
+            attachments: latest.attachments,
+            messages: latest.messages,
+            toolCalls: latest.toolCalls
+        }, resolveVaultPath, existing ?? null);
+        noteRef.current = note;
+        return note.path;
+    }, [app, folder, resolveVaultPath, session]);
+
+    useEffect(() => {
+        const turnEnded = wasSendingRef.current && !isSending;
+        wasSendingRef.current = isSending;
+        if (!turnEnded || !autoSave) {
+            return;
+        }
+
+        saveConversation().catch((error) => {
+            console.warn("Conversation auto-save failed", error);
+            onMessage("system", `Auto-save error: ${formatError(error)}`);
+        });
+    }, [autoSave, isSending, onMessage, saveConversation]);
+
+    return { saveConversation, addAttachedPaths };
+};
@@ -1,10 +1,14 @@
 import { useCallback, useRef, useState } from "react";
+import type { ContentBlock } from "@agentclientprotocol/sdk";
 import type { ChatMessage, ChatMessageRole } from "../types";
 import { createMessageId } from "../utils";
 
 export const useMessages = () => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
-    const activeAssistantIdRef = useRef<string | null>(null);
+    const activeStreamRef = useRef<{ id: string; role: ChatMessageRole } | null>(null);
+    // Thought chunks of a turn share one block, even around answer text or tool calls.
+    const activeThoughtRef = useRef<string | null>(null);
+    const isThinkingRef = useRef(false);
 
     const appendMessage = useCallback((role: ChatMessageRole, content: string) => {
         setMessages((prev) => [
@@ -17,15 +21,15 @@ export const useMessages = () => {
         ]);
     }, []);
 
-    const appendAssistantText = useCallback((text: string) => {
+    const appendStreamText = useCallback((role: ChatMessageRole, text: string) => {
         if (!text) {
             return;
         }
 
         setMessages((prev) => {
-            const activeId = activeAssistantIdRef.current;
-            if (activeId) {
-                const index = prev.findIndex((message) => message.id === activeId);
+            const active = activeStreamRef.current;
+            if (active && active.role === role) {
+                const index = prev.findIndex((message) => message.id === active.id);
                 if (index !== -1) {
                     const next = [...prev];
                     const target = prev[index]!;
@@ -34,26 +38,125 @@ export const useMessages = () => {
                 }
             }
 
-            const id = createMessageId("assistant");
-            activeAssistantIdRef.current = id;
-            return [...prev, { id, role: "assistant", content: text }];
+            const id = createMessageId(role);
+            activeStreamRef.current = { id, role };
+            return [...prev, { id, role, content: text }];
+        });
+    }, []);
+
+    /** Marks the thought block as done, so its label shows the final duration. */
+    const finishThinking = useCallback(() => {
+        if (!isThinkingRef.current) {
+            return;
+        }
+
+        isThinkingRef.current = false;
+        setMessages((prev) => prev.map((message) =>
+            message.isStreaming ? { ...message, isStreaming: false } : message
+        ));
+    }, []);
+
+    const appendThoughtText = useCallback((text: string) => {
+        if (!text) {
+            return;
+        }
+
+        isThinkingRef.current = true;
+        const now = Date.now();
+        setMessages((prev) => {
+            const activeId = activeThoughtRef.current;
+            const index = activeId ? prev.findIndex((message) => message.id === activeId) : -1;
+            if (index !== -1) {
+                const next = [...prev];
+                const target = prev[index]!;
+                next[index] = { ...target, content: target.content + text, endedAt: now, isStreaming: true };
+                return next;
+            }
+
+            const id = createMessageId("thought");
+            activeThoughtRef.current = id;
+            activeStreamRef.current = null;
+            return [
+                ...prev,
+                { id, role: "thought", content: text, startedAt: now, endedAt: now, isStreaming: true }
+            ];
+        });
+    }, []);
+
+    const appendAssistantText = useCallback((text: string) => {
+        finishThinking();
+        appendStreamText("assistant", text);
+    }, [appendStreamText, finishThinking]);
+
+    // Agents replay earlier user turns as chunks when a session is loaded.
+    const appendUserText = useCallback((text: string) => {
+        finishThinking();
+        activeThoughtRef.current = null;
+        appendStreamText("user", text);
+    }, [appendStreamText, finishThinking]);
+
+    /** Adds a non-text block; text streamed after it starts a new message. */
+    const appendContentBlock = useCallback((role: ChatMessageRole, block: ContentBlock) => {
+        if (role === "assistant") {
+            finishThinking();
+        }
+        activeStreamRef.current = null;
+        setMessages((prev) => [
+            ...prev,
+            {
+                id: createMessageId(role),
+                role,
+                content: "",
+                block
+            }
+        ]);
+    }, [finishThinking]);
+
+    // Later updates to the same tool call change its card, not the transcript.
+    const appendToolCall = useCallback((toolCallId: string) => {
+        setMessages((prev) => {
+            if (prev.some((message) => message.toolCallId === toolCallId)) {
+                return prev;
+            }
+
+            // Text streamed after the card starts a new message below it.
+            activeStreamRef.current = null;
+            return [
+                ...prev,
+                {
+                    id: createMessageId("tool"),
+                    role: "system",
+                    content: "",
+                    toolCallId
+                }
+            ];
         });
     }, []);
 
     const clearMessages = useCallback(() => {
         setMessages([]);
-        activeAssistantIdRef.current = null;
+        activeStreamRef.current = null;
+        activeThoughtRef.current = null;
+        isThinkingRef.current = false;
     }, []);
 
+    // Called when a turn starts, so its text and thoughts get fresh blocks.
     const resetActiveAssistant = useCallback(() => {
-        activeAssistantIdRef.current = null;
-    }, []);
+        activeStreamRef.current = null;
+        activeThoughtRef.current = null;
+        finishThinking();
+    }, [finishThinking]);
 
     return {
         messages,
         appendMessage,
         appendAssistantText,
+        appendUserText,
+        appendThoughtText,
+        appendContentBlock,
+        appendToolCall,
         clearMessages,
-        resetActiveAssistant
+        resetActiveAssistant,
+        finishThinking
     };
 };
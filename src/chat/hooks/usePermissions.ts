@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import type AcpClient from "acp/client";
+import type { AcpSession } from "acp/session";
 import type {
     PermissionOption,
     RequestPermissionResponse,
@@ -9,11 +9,11 @@ import type { ChatMessageRole } from "../types";
 import { createMessageId } from "../utils";
 
 interface UsePermissionsProps {
-    client: AcpClient;
+    session: AcpSession;
     onMessage: (role: ChatMessageRole, content: string) => void;
 }
 
-export const usePermissions = ({ client, onMessage }: UsePermissionsProps) => {
+export const usePermissions = ({ session, onMessage }: UsePermissionsProps) => {
     const [permissionQueue, setPermissionQueue] = useState<PermissionRequestState[]>([]);
     const permissionQueueRef = useRef<PermissionRequestState[]>([]);
 
@@ -30,7 +30,7 @@ export const usePermissions = ({ client, onMessage }: UsePermissionsProps) => {
     }, []);
 
     useEffect(() => {
-        const unsubscribe = client.subscribePermissionRequests((request) => {
+        const unsubscribe = session.subscribePermissionRequests((request) => {
             return new Promise<RequestPermissionResponse>((resolve) => {
                 const entry: PermissionRequestState = {
                     id: createMessageId("permission"),
@@ -48,7 +48,7 @@ export const usePermissions = ({ client, onMessage }: UsePermissionsProps) => {
             }
             permissionQueueRef.current = [];
         };
-    }, [client, enqueuePermissionRequest]);
+    }, [session, enqueuePermissionRequest]);
 
     const resolvePermissionRequest = useCallback(
         (outcome: RequestPermissionResponse["outcome"]) => {
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SessionNotification } from "@agentclientprotocol/sdk";
+import type { AcpSession } from "acp/session";
+import type { PlanSnapshot } from "../types";
+import { createMessageId } from "../utils";
+
+/** Older versions kept per conversation; a long turn can revise its plan often. */
+const MAX_PLAN_HISTORY = 50;
+
+interface UsePlanProps {
+    session: AcpSession;
+}
+
+/**
+ * Tracks the agent's plan. Every `plan` update replaces the whole plan, so
+ * each one is kept as a snapshot and the last is the current plan.
+ */
+export const usePlan = ({ session }: UsePlanProps) => {
+    const [history, setHistory] = useState<PlanSnapshot[]>([]);
+
+    const clearPlan = useCallback(() => {
+        setHistory([]);
+    }, []);
+
+    useEffect(() => {
+        setHistory([]);
+
+        const handleSessionUpdate = (notification: SessionNotification) => {
+            const update = notification.update;
+            if (update.sessionUpdate !== "plan") {
+                return;
+            }
+
+            const snapshot: PlanSnapshot = {
+                id: createMessageId("plan"),
+                entries: update.entries,
+                receivedAt: Date.now()
+            };
+            setHistory((prev) => [...prev, snapshot].slice(-MAX_PLAN_HISTORY));
+        };
+
+        const unsubscribeUpdates = session.subscribeSessionUpdates(handleSessionUpdate);
+        // A resumed session replays its plan updates along with the transcript.
+        const unsubscribeReset = session.subscribeReset(clearPlan);
+        return () => {
+            unsubscribeUpdates();
+            unsubscribeReset();
+        };
+    }, [clearPlan, session]);
+
+    const plan = history.length > 0 ? history[history.length - 1]! : null;
+
+    return { plan, planHistory: history, clearPlan };
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SessionModeState } from "@agentclientprotocol/sdk";
+import type { AcpSession } from "acp/session";
+import type { ChatMessageRole } from "../types";
+import { formatError } from "../utils";
+
+interface UseSessionModesProps {
+    session: AcpSession;
+    onMessage: (role: ChatMessageRole, content: string) => void;
+    /** Called after the user picks a mode, to remember it for new sessions. */
+    onDefaultModeChange?: (modeId: string) => void;
+}
+
+export const useSessionModes = ({ session, onMessage, onDefaultModeChange }: UseSessionModesProps) => {
+    const [modes, setModes] = useState<SessionModeState | null>(() => session.getModes());
+
+    useEffect(() => {
+        setModes(session.getModes());
+        return session.subscribeModes(setModes);
+    }, [session]);
+
+    const handleModeChange = useCallback(async (modeId: string) => {
+        try {
+            await session.setMode(modeId);
+            onDefaultModeChange?.(modeId);
+        } catch (error) {
+            onMessage("system", `Mode change failed: ${formatError(error)}`);
+        }
+    }, [onDefaultModeChange, onMessage, session]);
+
+    return { modes, handleModeChange };
+};
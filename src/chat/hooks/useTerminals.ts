@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import type { AcpSession } from "acp/session";
+import type { TerminalSnapshot } from "acp/terminals";
+
+interface UseTerminalsProps {
+    session: AcpSession;
+}
+
+export const useTerminals = ({ session }: UseTerminalsProps) => {
+    const [terminals, setTerminals] = useState<Record<string, TerminalSnapshot>>({});
+
+    useEffect(() => {
+        const unsubscribe = session.subscribeTerminalOutput((snapshot) => {
+            setTerminals((prev) => ({ ...prev, [snapshot.terminalId]: snapshot }));
+        });
+
+        return () => {
+            unsubscribe();
+        };
+    }, [session]);
+
+    return { terminals };
+};
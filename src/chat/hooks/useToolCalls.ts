@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SessionNotification } from "@agentclientprotocol/sdk";
+import type { AcpSession } from "acp/session";
+import type { ToolCallState } from "../types";
+import { mergeToolCall } from "../utils";
+
+interface UseToolCallsProps {
+    session: AcpSession;
+}
+
+/** Tool calls of the conversation by id, each with its updates merged in. */
+export const useToolCalls = ({ session }: UseToolCallsProps) => {
+    const [toolCalls, setToolCalls] = useState<Record<string, ToolCallState>>({});
+
+    const clearToolCalls = useCallback(() => {
+        setToolCalls({});
+    }, []);
+
+    useEffect(() => {
+        setToolCalls({});
+
+        const handleSessionUpdate = (notification: SessionNotification) => {
+            const update = notification.update;
+            if (update.sessionUpdate !== "tool_call" && update.sessionUpdate !== "tool_call_update") {
+                return;
+            }
+
+            setToolCalls((prev) => ({
+                ...prev,
+                [update.toolCallId]: mergeToolCall(prev[update.toolCallId], update)
+            }));
+        };
+
+        const unsubscribeUpdates = session.subscribeSessionUpdates(handleSessionUpdate);
+        const unsubscribeReset = session.subscribeReset(clearToolCalls);
+        return () => {
+            unsubscribeUpdates();
+            unsubscribeReset();
+        };
+    }, [clearToolCalls, session]);
+
+    return { toolCalls, clearToolCalls };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { AcpSession } from "acp/session";
+import type { WriteReviewDecision } from "acp/writeReview";
+import type { ChatMessageRole, WriteReviewState } from "../types";
+import { createMessageId } from "../utils";
+
+interface UseWriteReviewsProps {
+    session: AcpSession;
+    onMessage: (role: ChatMessageRole, content: string) => void;
+}
+
+export const useWriteReviews = ({ session, onMessage }: UseWriteReviewsProps) => {
+    const [reviewQueue, setReviewQueue] = useState<WriteReviewState[]>([]);
+    const reviewQueueRef = useRef<WriteReviewState[]>([]);
+
+    useEffect(() => {
+        reviewQueueRef.current = reviewQueue;
+    }, [reviewQueue]);
+
+    useEffect(() => {
+        const unsubscribe = session.subscribeWriteReviews((request) => {
+            return new Promise<WriteReviewDecision>((resolve) => {
+                const entry: WriteReviewState = {
+                    id: createMessageId("write-review"),
+                    request,
+                    resolve
+                };
+                setReviewQueue((prev) => {
+                    const next = [...prev, entry];
+                    reviewQueueRef.current = next;
+                    return next;
+                });
+            });
+        });
+
+        return () => {
+            unsubscribe();
+            for (const pending of reviewQueueRef.current) {
+                pending.resolve({ outcome: "reject", reason: "the chat pane was closed" });
+            }
+            reviewQueueRef.current = [];
+        };
+    }, [session]);
+
+    const resolveWriteReview = useCallback((decision: WriteReviewDecision) => {
+        setReviewQueue((prev) => {
+            const current = prev[0];
+            if (!current) {
+                return prev;
+            }
+
+            const rest = prev.slice(1);
+            current.resolve(decision);
+            reviewQueueRef.current = rest;
+            return rest;
+        });
+    }, []);
+
+    const activeWriteReview = reviewQueue[0] ?? null;
+
+    const handleWriteAccept = useCallback((content?: string) => {
+        if (activeWriteReview) {
+            onMessage(
+                "system",
+                content === undefined
+                    ? `Write accepted: ${activeWriteReview.request.path}`
+                    : `Write applied with edits: ${activeWriteReview.request.path}`
+            );
+        }
+        resolveWriteReview({ outcome: "accept", content });
+    }, [activeWriteReview, onMessage, resolveWriteReview]);
+
+    const handleWriteReject = useCallback(() => {
+        if (activeWriteReview) {
+            onMessage("system", `Write rejected: ${activeWriteReview.request.path}`);
+        }
+        resolveWriteReview({ outcome: "reject" });
+    }, [activeWriteReview, onMessage, resolveWriteReview]);
+
+    return {
+        activeWriteReview,
+        pendingWriteReviewCount: Math.max(reviewQueue.length - 1, 0),
+        handleWriteAccept,
+        handleWriteReject
+    };
+};
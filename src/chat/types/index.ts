@@ -1,16 +1,37 @@
 import type {
+    ContentBlock,
+    PlanEntry,
     RequestPermissionRequest,
     RequestPermissionResponse,
+    ToolCallContent,
+    ToolCallLocation,
+    ToolCallStatus,
+    ToolKind,
 } from "@agentclientprotocol/sdk";
-import type AcpClient from "acp/client";
+import type { AcpSession } from "acp/session";
+import type { AgentProfile } from "acp/profiles";
+import type { ConversationSummary } from "conversationNotes";
+import type { WriteReviewDecision, WriteReviewRequest } from "acp/writeReview";
 import type { App } from "obsidian";
 
-export type ChatMessageRole = "assistant" | "user" | "system";
+export type ChatMessageRole = "assistant" | "user" | "system" | "thought";
+
+/** How agent thinking appears in the transcript. */
+export type ThoughtDisplay = "expanded" | "collapsed" | "hidden";
 
 export type ChatMessage = {
     id: string;
     role: ChatMessageRole;
     content: string;
+    /** Set on the placeholder that positions a tool call card in the transcript. */
+    toolCallId?: string;
+    /** A non-text block (image, audio, resource) shown as itself rather than as text. */
+    block?: ContentBlock;
+    /** First and latest chunk of a thought block, for its duration label. */
+    startedAt?: number;
+    endedAt?: number;
+    /** A thought block the agent may still add to. */
+    isStreaming?: boolean;
 };
 
 export type AttachmentSource = "auto" | "manual";
@@ -54,7 +75,51 @@ export type PermissionRequestState = {
     resolve: (response: RequestPermissionResponse) => void;
 };
 
+export type WriteReviewState = {
+    id: string;
+    request: WriteReviewRequest;
+    resolve: (decision: WriteReviewDecision) => void;
+};
+
+export type AgentProfileOption = Pick<AgentProfile, "id" | "name">;
+
 export type ChatViewProps = {
-    client: AcpClient;
+    session: AcpSession;
     app: App;
+    agentProfiles: AgentProfileOption[];
+    activeAgentProfileId: string;
+    onAgentProfileChange: (id: string) => void;
+    /** Remembers the mode picked in the header as the profile's default. */
+    onDefaultModeChange?: (modeId: string) => void;
+    thoughtDisplay: ThoughtDisplay;
+    /** Vault folder that conversation notes are saved to. */
+    conversationFolder: string;
+    autoSaveConversations: boolean;
+    /** Receives the function that saves this chat as a note, or null on unmount. */
+    onConversationSaverChange?: (save: (() => Promise<string | null>) | null) => void;
+    /** Reopens a saved conversation picked in the history panel. */
+    onOpenConversation?: (conversation: ConversationSummary) => void;
+};
+
+export type PlanSnapshot = {
+    id: string;
+    entries: PlanEntry[];
+    receivedAt: number;
+};
+
+/** A tool call with every `tool_call_update` for its id merged in. */
+export type ToolCallState = {
+    toolCallId: string;
+    title: string;
+    kind: ToolKind;
+    status: ToolCallStatus;
+    content: ToolCallContent[];
+    locations: ToolCallLocation[];
+    rawInput?: unknown;
+    rawOutput?: unknown;
+};
+
+export type ToolCallFilter = {
+    query: string;
+    status: ToolCallStatus | "all";
 };
@@ -0,0 +1,27 @@
+import type { AvailableCommand } from "@agentclientprotocol/sdk";
+
+/**
+ * Commands to suggest while the input is a bare `/name` prefix; prefix
+ * matches come before matches elsewhere in the name.
+ */
+export const matchCommands = (commands: AvailableCommand[], input: string): AvailableCommand[] => {
+    const match = /^\/(\S*)$/.exec(input);
+    if (!match) {
+        return [];
+    }
+
+    const query = match[1]!.toLowerCase();
+    const prefixed = commands.filter((command) => command.name.toLowerCase().startsWith(query));
+    const contained = commands.filter(
+        (command) => !command.name.toLowerCase().startsWith(query) && command.name.toLowerCase().includes(query)
+    );
+    return [...prefixed, ...contained];
+};
+
+/** The command being given arguments, once its name is followed by a space. */
+export const findTypedCommand = (commands: AvailableCommand[], input: string): AvailableCommand | null => {
+    const match = /^\/(\S+)\s/.exec(input);
+    return match ? commands.find((command) => command.name === match[1]) ?? null : null;
+};
+
+export const formatCommand = (command: AvailableCommand): string => `/${command.name} `;
@@ -1,4 +1,4 @@
-import type { ContentBlock, ToolCall, ToolCallUpdate } from "@agentclientprotocol/sdk";
+import type { ContentBlock } from "@agentclientprotocol/sdk";
 
 export const contentToText = (content: ContentBlock): string => {
     if (content.type === "text") {
@@ -19,9 +19,3 @@ export const contentToText = (content: ContentBlock): string => {
 
     return `[${content.type} content]`;
 };
-
-export const describeToolCall = (prefix: string, toolCall: ToolCall | ToolCallUpdate) => {
-    const title = toolCall.title ?? `Tool ${toolCall.toolCallId}`;
-    const status = toolCall.status ? ` (${toolCall.status})` : "";
-    return `${prefix}: ${title}${status}`;
-};
@@ -1,5 +1,5 @@
 import { TFile } from "obsidian";
-import { INLINE_ATTACHMENT_LIMIT, TEXT_EXTENSIONS } from "../constants";
+import { INLINE_ATTACHMENT_LIMIT, MEDIA_MIME_TYPES, TEXT_EXTENSIONS } from "../constants";
 
 export const isTextFile = (file: TFile) => {
     const ext = file.extension.toLowerCase();
@@ -9,4 +9,14 @@ export const isTextFile = (file: TFile) => {
     return TEXT_EXTENSIONS.has(ext);
 };
 
+export const getMediaMimeType = (path: string): string | null => {
+    const ext = path.split(".").pop()?.toLowerCase() ?? "";
+    return MEDIA_MIME_TYPES[ext] ?? null;
+};
+
+export const getMediaExtension = (mimeType: string): string | null => {
+    const normalized = mimeType.toLowerCase();
+    return Object.keys(MEDIA_MIME_TYPES).find((ext) => MEDIA_MIME_TYPES[ext] === normalized) ?? null;
+};
+
 export { INLINE_ATTACHMENT_LIMIT, TEXT_EXTENSIONS };
@@ -1,6 +1,9 @@
+export * from "./commands";
 export * from "./content";
 export * from "./fileDetection";
 export * from "./formatters";
 export * from "./idGenerator";
+export * from "./markdown";
 export * from "./paths";
+export * from "./toolCalls";
 export * from "./validators";
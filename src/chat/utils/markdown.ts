@@ -0,0 +1,39 @@
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,}|\$\$\s*$)/;
+
+/**
+ * Splits Markdown into top-level blocks at blank lines outside code fences
+ * and math blocks, so a streaming message can re-render only its last block.
+ */
+export const splitMarkdownBlocks = (markdown: string): string[] => {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of markdown.split("\n")) {
+        const match = FENCE_PATTERN.exec(line);
+        if (match) {
+            const marker = match[1]!.trim();
+            if (fence === null) {
+                fence = marker;
+            } else if (line.trim() === marker && marker[0] === fence[0] && marker.length >= fence.length) {
+                fence = null;
+            }
+        }
+
+        if (fence === null && line.trim() === "" && current.length > 0) {
+            blocks.push(current.join("\n"));
+            current = [];
+            continue;
+        }
+
+        if (line.trim() !== "" || current.length > 0) {
+            current.push(line);
+        }
+    }
+
+    if (current.length > 0) {
+        blocks.push(current.join("\n"));
+    }
+
+    return blocks;
+};
@@ -41,6 +41,19 @@ export const encodeVaultPath = (path: string) =>
 
 export const toVaultUri = (path: string) => `vault:///${encodeVaultPath(path)}`;
 
+/** Vault path of a `vault:///` URI, or null for any other URI. */
+export const fromVaultUri = (uri: string): string | null => {
+    if (!uri.startsWith("vault:///")) {
+        return null;
+    }
+
+    try {
+        return normalizePath(decodeURIComponent(uri.slice("vault:///".length)));
+    } catch {
+        return null;
+    }
+};
+
 export const resolveObsidianOpenUrl = (app: App, candidate: string): TFile | null => {
     let url: URL;
     try {
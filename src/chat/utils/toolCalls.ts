@@ -0,0 +1,46 @@
+import type { ToolCall, ToolCallUpdate } from "@agentclientprotocol/sdk";
+import type { ToolCallFilter, ToolCallState } from "../types";
+
+/**
+ * Applies a `tool_call` or `tool_call_update`. Fields present in the update
+ * replace the current ones, `content` and `locations` included.
+ */
+export const mergeToolCall = (
+    current: ToolCallState | undefined,
+    update: ToolCall | ToolCallUpdate
+): ToolCallState => ({
+    toolCallId: update.toolCallId,
+    title: update.title ?? current?.title ?? `Tool ${update.toolCallId}`,
+    kind: update.kind ?? current?.kind ?? "other",
+    status: update.status ?? current?.status ?? "pending",
+    content: update.content ?? current?.content ?? [],
+    locations: update.locations ?? current?.locations ?? [],
+    rawInput: update.rawInput !== undefined ? update.rawInput : current?.rawInput,
+    rawOutput: update.rawOutput !== undefined ? update.rawOutput : current?.rawOutput
+});
+
+export const matchesToolCallFilter = (toolCall: ToolCallState, filter: ToolCallFilter): boolean => {
+    if (filter.status !== "all" && toolCall.status !== filter.status) {
+        return false;
+    }
+
+    const query = filter.query.trim().toLowerCase();
+    if (!query) {
+        return true;
+    }
+
+    return [toolCall.title, toolCall.kind, ...toolCall.locations.map((location) => location.path)]
+        .some((text) => text.toLowerCase().includes(query));
+};
+
+export const formatRawValue = (value: unknown): string => {
+    if (typeof value === "string") {
+        return value;
+    }
+
+    try {
+        return JSON.stringify(value, null, 2) ?? String(value);
+    } catch {
+        return String(value);
+    }
+};
@@ -1,75 +1,3 @@
-export const isPromptParamError = (error: unknown) => {
-    const asText = (value: unknown): string => {
-        if (typeof value === "string") {
-            return value;
-        }
-
-        if (!value || typeof value !== "object") {
-            return "";
-        }
-
-        const seen = new WeakSet<object>();
-        try {
-            const stringifyReplacer = (_key: string, val: unknown): unknown => {
-                if (val && typeof val === "object") {
-                    const objectVal = val;
-                    if (seen.has(objectVal)) {
-                        return "[circular]";
-                    }
-                    seen.add(objectVal);
-                }
-                return val;
-            };
-
-            return JSON.stringify(value, stringifyReplacer);
-        } catch {
-            return "";
-        }
-    };
-
-    const containsPromptParam = (value: unknown): boolean => {
-        if (typeof value === "string") {
-            return value.includes("prompt parameter");
-        }
-
-        if (!value || typeof value !== "object") {
-            return false;
-        }
-
-        const message = (value as { message?: unknown }).message;
-        if (typeof message === "string" && message.includes("prompt parameter")) {
-            return true;
-        }
-
-        const details = (value as { details?: unknown }).details;
-        if (typeof details === "string" && details.includes("prompt parameter")) {
-            return true;
-        }
-
-        const blob = asText(value);
-        if (blob && blob.includes("prompt parameter")) {
-            return true;
-        }
-
-        return false;
-    };
-
-    if (containsPromptParam(error)) {
-        return true;
-    }
-
-    let current: unknown = error;
-    while (current && typeof current === "object") {
-        const data = (current as { data?: unknown }).data;
-        if (containsPromptParam(data)) {
-            return true;
-        }
-        current = (data as { error?: unknown } | undefined)?.error;
-    }
-
-    return false;
-};
-
 export type ErrorWithMessage = { message: unknown; code?: unknown; data?: unknown };
 export type ErrorWithData = { data?: unknown; error?: ErrorWithData };
 
@@ -1,21 +1,39 @@
 import { StrictMode } from "react";
 import {
     ItemView,
+    Notice,
+    ViewStateResult,
     WorkspaceLeaf,
 } from "obsidian";
 import { createRoot, Root } from "react-dom/client";
-import AcpClient from "acp/client";
+import type ObsidianAssistantPlugin from "main";
+import type { AcpSession } from "acp/session";
+import { REPLAY_PROFILE_ID } from "acp/sessionManager";
+import { Trace, parseTrace } from "acp/trace";
 import { ChatView } from "chat/ChatView";
+import type { ConversationSummary } from "conversationNotes";
 
 export const VIEW_TYPE_EXAMPLE = "example-view";
 
+type AssistantViewState = {
+    agentProfileId?: string;
+    sessionId?: string | null;
+    /** Trace file replayed instead of a live agent. */
+    replayTracePath?: string | null;
+};
+
 export class AssistantChatView extends ItemView {
     root: Root | null = null;
-    private clientProvider: () => AcpClient;
+    private plugin: ObsidianAssistantPlugin;
+    private session: AcpSession | null = null;
+    private agentProfileId: string;
+    private replayTracePath: string | null = null;
+    private saveConversation: (() => Promise<string | null>) | null = null;
 
-    constructor(leaf: WorkspaceLeaf, clientProvider: () => AcpClient) {
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianAssistantPlugin) {
         super(leaf);
-        this.clientProvider = clientProvider;
+        this.plugin = plugin;
+        this.agentProfileId = plugin.getActiveAgentProfile().id;
     }
 
     getViewType() {
@@ -26,19 +44,201 @@ export class AssistantChatView extends ItemView {
         return "Assistant";
     }
 
+    getState(): Record<string, unknown> {
+        return {
+            ...super.getState(),
+            agentProfileId: this.agentProfileId,
+            sessionId: this.session?.getSessionId() ?? null,
+            replayTracePath: this.replayTracePath
+        };
+    }
+
+    async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        const viewState = (state ?? {}) as AssistantViewState;
+        if (viewState.replayTracePath) {
+            if (viewState.replayTracePath !== this.replayTracePath) {
+                await this.openReplay(viewState.replayTracePath);
+            }
+        } else if (viewState.agentProfileId !== undefined || viewState.sessionId !== undefined) {
+            const profileId = viewState.agentProfileId ?? this.agentProfileId;
+            const sessionId = viewState.sessionId ?? null;
+            // A null session id asks for a fresh conversation.
+            if (
+                !this.session ||
+                profileId !== this.agentProfileId ||
+                sessionId === null ||
+                sessionId !== this.session.getSessionId()
+            ) {
+                this.openSession(profileId, { sessionId, restoreLast: false });
+            }
+        }
+
+        await super.setState(state, result);
+    }
+
     async onOpen() {
         this.containerEl.empty();
         const rootEl = this.containerEl.createDiv({ cls: "assistant-chat-view" });
         this.root = createRoot(rootEl);
-        const client = this.clientProvider();
+        if (!this.session) {
+            this.openSession(this.agentProfileId, { restoreLast: true });
+        } else {
+            this.render();
+        }
+    }
+
+    render() {
+        if (!this.root) {
+            return;
+        }
+
+        if (this.replayTracePath) {
+            this.renderChat([{ id: REPLAY_PROFILE_ID, name: this.session?.getProfile().name ?? "Replay" }]);
+            return;
+        }
+
+        const profiles = this.plugin.settings.agentProfiles;
+        if (!profiles.some((profile) => profile.id === this.agentProfileId)) {
+            // The profile was removed in settings; fall back to the default agent.
+            this.openSession(this.plugin.getActiveAgentProfile().id, { restoreLast: true });
+            return;
+        }
+
+        this.renderChat(profiles.map(({ id, name }) => ({ id, name })));
+    }
+
+    /** Saves the chat shown in this pane as a note in the conversation folder. */
+    async exportConversation(): Promise<void> {
+        if (!this.saveConversation) {
+            new Notice("This chat is not ready yet.");
+            return;
+        }
+
+        try {
+            const path = await this.saveConversation();
+            new Notice(path ? `Saved chat to ${path}` : "This chat has no messages to save.");
+        } catch (error) {
+            new Notice(`Could not save chat: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Resumes a saved conversation through `session/load` when its agent
+     * supports that, otherwise opens the note read-only.
+     */
+    async openConversation(conversation: ConversationSummary): Promise<void> {
+        const { sessionId, agentProfileId } = conversation;
+        if (sessionId && sessionId === this.session?.getSessionId() && !this.replayTracePath) {
+            return;
+        }
+
+        const knownProfile = this.plugin.settings.agentProfiles.some((profile) => profile.id === agentProfileId);
+        if (sessionId && knownProfile) {
+            try {
+                const client = this.plugin.sessionManager.getClient(agentProfileId);
+                await client.initialize();
+                if (client.canLoadSession()) {
+                    this.openSession(agentProfileId, { sessionId, restoreLast: false });
+                    this.app.workspace.requestSaveLayout();
+                    return;
+                }
+            } catch (error) {
+                console.warn("Could not start the agent to resume a conversation", error);
+            }
+        }
+
+        const file = this.app.vault.getFileByPath(conversation.path);
+        if (!file) {
+            new Notice(`${conversation.path} no longer exists.`);
+            return;
+        }
+
+        await this.app.workspace.getLeaf("tab").openFile(file, { state: { mode: "preview" } });
+        new Notice(`${conversation.agentName} cannot resume this conversation; opened the saved transcript instead.`);
+    }
+
+    async onClose() {
+        this.root?.unmount();
+        this.root = null;
+        this.session?.dispose();
+        this.session = null;
+    }
+
+    private handleConversationSaverChange = (save: (() => Promise<string | null>) | null) => {
+        this.saveConversation = save;
+    };
+
+    private handleOpenConversation = (conversation: ConversationSummary) => {
+        void this.openConversation(conversation);
+    };
+
+    private renderChat(agentProfiles: { id: string; name: string }[]) {
+        const session = this.session;
+        if (!this.root || !session) {
+            return;
+        }
+
         this.root.render(
             <StrictMode>
-                <ChatView client={client} app={this.app} />
+                <ChatView
+                    session={session}
+                    app={this.app}
+                    agentProfiles={agentProfiles}
+                    activeAgentProfileId={this.replayTracePath ? REPLAY_PROFILE_ID : this.agentProfileId}
+                    onAgentProfileChange={(id) => {
+                        this.openSession(id, { restoreLast: true });
+                    }}
+                    onDefaultModeChange={this.replayTracePath ? undefined : (modeId) => {
+                        void this.plugin.setDefaultMode(this.agentProfileId, modeId);
+                    }}
+                    thoughtDisplay={this.plugin.settings.thoughtDisplay}
+                    conversationFolder={this.plugin.settings.conversationFolder}
+                    autoSaveConversations={this.plugin.settings.autoSaveConversations}
+                    onConversationSaverChange={this.handleConversationSaverChange}
+                    onOpenConversation={this.replayTracePath ? undefined : this.handleOpenConversation}
+                />
             </StrictMode>
         );
     }
 
-    async onClose() {
-        this.root?.unmount();
+    private openSession(
+        profileId: string,
+        options: { sessionId?: string | null; restoreLast: boolean }
+    ) {
+        const knownProfile = this.plugin.settings.agentProfiles.some((profile) => profile.id === profileId);
+        this.session?.dispose();
+        this.replayTracePath = null;
+        this.agentProfileId = knownProfile ? profileId : this.plugin.getActiveAgentProfile().id;
+        this.session = this.plugin.sessionManager.createSession(this.agentProfileId, {
+            sessionId: knownProfile ? options.sessionId : null,
+            restoreLast: options.restoreLast,
+            onSessionIdChange: () => {
+                this.app.workspace.requestSaveLayout();
+            }
+        });
+        this.render();
+    }
+
+    private async openReplay(path: string) {
+        let trace: Trace;
+        try {
+            trace = parseTrace(await this.app.vault.adapter.read(path));
+        } catch (error) {
+            new Notice(`Could not open trace: ${error instanceof Error ? error.message : String(error)}`);
+            if (!this.session) {
+                this.openSession(this.agentProfileId, { restoreLast: true });
+            }
+            return;
+        }
+
+        this.session?.dispose();
+        this.replayTracePath = path;
+        const name = path.split("/").pop() ?? path;
+        this.session = this.plugin.sessionManager.createReplaySession(trace, `Replay: ${name}`, {
+            onSessionIdChange: () => {
+                this.app.workspace.requestSaveLayout();
+            }
+        });
+        this.render();
     }
 }
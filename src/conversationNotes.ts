@@ -0,0 +1,348 @@
+import { App, TFile, moment, normalizePath, stringifyYaml } from "obsidian";
+import type { ContentBlock, ToolCallContent } from "@agentclientprotocol/sdk";
+import type { ChatMessage, ToolCallState } from "chat/types";
+import { buildHunks, diffLines } from "acp/diff";
+import type { DiffLine } from "acp/diff";
+import { fromVaultUri } from "chat/utils";
+
+export const DEFAULT_CONVERSATION_FOLDER = "Assistant chats";
+
+/** Frontmatter keys of a saved conversation. */
+export const CONVERSATION_KEYS = {
+    sessionId: "session_id",
+    agent: "agent",
+    agentProfileId: "agent_profile",
+    title: "title",
+    created: "created",
+    updated: "updated",
+    attachments: "attachments"
+} as const;
+
+export type ConversationNoteData = {
+    sessionId: string | null;
+    agentName: string;
+    agentProfileId: string;
+    title: string | null;
+    createdAt: number;
+    updatedAt: number;
+    /** Vault paths attached to prompts. */
+    attachments: string[];
+    messages: ChatMessage[];
+    toolCalls: Record<string, ToolCallState>;
+};
+
+type VaultPathResolver = (path: string) => string | null;
+
+const FRONTMATTER_DATE_FORMAT = "YYYY-MM-DDTHH:mm:ss";
+const TITLE_LENGTH = 60;
+
+const quote = (text: string) =>
+    text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n");
+
+const callout = (type: string, title: string, body: string, folded = false) => {
+    const header = `> [!${type}]${folded ? "-" : ""} ${title.replace(/\s+/g, " ").trim()}`;
+    return body.trim() ? `${header}\n${quote(body.trimEnd())}` : header;
+};
+
+/** A fence longer than any backtick run in the text, so it cannot close early. */
+const fence = (text: string, info = "") => {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const marker = "`".repeat(longest + 1);
+    return `${marker}${info}\n${text.replace(/\n$/, "")}\n${marker}`;
+};
+
+const wikilink = (path: string) => `[[${path.replace(/\.md$/, "")}]]`;
+
+/** First line of the first prompt, used when the agent sends no title. */
+export const getFallbackTitle = (messages: ChatMessage[]): string | null => {
+    const first = messages.find((message) => message.role === "user" && message.content.trim());
+    const line = first?.content.trim().split("\n")[0]?.trim() ?? "";
+    return line ? line.slice(0, TITLE_LENGTH) : null;
+};
+
+const blockVaultPath = (block: ContentBlock, resolveVaultPath: VaultPathResolver): string | null => {
+    const uri = block.type === "resource_link" ? block.uri : block.type === "resource" ? block.resource.uri : null;
+    if (!uri) {
+        return null;
+    }
+
+    return fromVaultUri(uri) ?? (uri.startsWith("file://")
+        ? resolveVaultPath(decodeURIComponent(uri.slice("file://".length)))
+        : null);
+};
+
+const formatBlock = (block: ContentBlock, resolveVaultPath: VaultPathResolver): string => {
+    const vaultPath = blockVaultPath(block, resolveVaultPath);
+    switch (block.type) {
+        case "text":
+            return block.text;
+        case "image":
+        case "audio":
+            return `*${block.type === "image" ? "Image" : "Audio"} (${block.mimeType})*`;
+        case "resource_link":
+            return vaultPath ? wikilink(vaultPath) : `[${block.title ?? block.name}](${block.uri})`;
+        case "resource":
+            return vaultPath ? `Attached ${wikilink(vaultPath)}` : `Attached \`${block.resource.uri}\``;
+        default:
+            return "";
+    }
+};
+
+const DIFF_PREFIXES: Record<DiffLine["type"], string> = { equal: " ", remove: "-", add: "+" };
+
+/** Unified diff hunks with three lines of context, as `diff -u` writes them. */
+const formatUnifiedDiff = (oldText: string, newText: string): string =>
+    buildHunks(diffLines(oldText, newText)).map(({ lines }) => {
+        const range = (side: "oldLine" | "newLine") => {
+            const numbers = lines.flatMap((line) => (line[side] === null ? [] : [line[side]]));
+            return `${numbers[0] ?? 0},${numbers.length}`;
+        };
+        const header = `@@ -${range("oldLine")} +${range("newLine")} @@`;
+        return [header, ...lines.map((line) => `${DIFF_PREFIXES[line.type]}${line.text}`)].join("\n");
+    }).join("\n");
+
+const formatToolContent = (item: ToolCallContent, resolveVaultPath: VaultPathResolver): string => {
+    if (item.type === "content") {
+        return formatBlock(item.content, resolveVaultPath);
+    }
+
+    if (item.type === "diff") {
+        const path = resolveVaultPath(item.path);
+        const diff = formatUnifiedDiff(item.oldText ?? "", item.newText);
+        return `${path ? wikilink(path) : `\`${item.path}\``}\n${fence(diff, "diff")}`;
+    }
+
+    return `*Terminal ${item.terminalId}*`;
+};
+
+const formatToolCall = (toolCall: ToolCallState, resolveVaultPath: VaultPathResolver): string => {
+    const parts: string[] = [];
+    const locations = toolCall.locations.map((location) => {
+        const path = resolveVaultPath(location.path);
+        const line = location.line ? `:${location.line}` : "";
+        return path ? `${wikilink(path)}${line}` : `\`${location.path}${line}\``;
+    });
+    if (locations.length > 0) {
+        parts.push(locations.join(", "));
+    }
+    if (toolCall.rawInput !== undefined && toolCall.rawInput !== null) {
+        parts.push(fence(JSON.stringify(toolCall.rawInput, null, 2) ?? "", "json"));
+    }
+    for (const item of toolCall.content) {
+        parts.push(formatToolContent(item, resolveVaultPath));
+    }
+
+    return callout("tool", `${toolCall.title} (${toolCall.status})`, parts.join("\n\n"), true);
+};
+
+const formatMessage = (
+    message: ChatMessage,
+    toolCalls: Record<string, ToolCallState>,
+    resolveVaultPath: VaultPathResolver
+): string | null => {
+    if (message.toolCallId) {
+        const toolCall = toolCalls[message.toolCallId];
+        return toolCall ? formatToolCall(toolCall, resolveVaultPath) : null;
+    }
+
+    const body = message.block ? formatBlock(message.block, resolveVaultPath) : message.content;
+    switch (message.role) {
+        case "user":
+            return callout("user", "You", body);
+        case "assistant":
+            return callout("assistant", "Assistant", body);
+        case "thought": {
+            const seconds = Math.round(((message.endedAt ?? 0) - (message.startedAt ?? 0)) / 1000);
+            return callout("thought", seconds > 0 ? `Thought for ${seconds}s` : "Thought", body, true);
+        }
+        default:
+            return callout("info", "System", body);
+    }
+};
+
+/** Vault paths attached to prompts, including ones in replayed user turns. */
+const collectAttachments = (data: ConversationNoteData, resolveVaultPath: VaultPathResolver): string[] => {
+    const paths = new Set(data.attachments);
+    for (const message of data.messages) {
+        const path = message.role === "user" && message.block
+            ? blockVaultPath(message.block, resolveVaultPath)
+            : null;
+        if (path) {
+            paths.add(path);
+        }
+    }
+    return [...paths];
+};
+
+export const formatConversationNote = (data: ConversationNoteData, resolveVaultPath: VaultPathResolver): string => {
+    const frontmatter = {
+        [CONVERSATION_KEYS.sessionId]: data.sessionId ?? "",
+        [CONVERSATION_KEYS.agent]: data.agentName,
+        [CONVERSATION_KEYS.agentProfileId]: data.agentProfileId,
+        [CONVERSATION_KEYS.title]: data.title ?? getFallbackTitle(data.messages) ?? "Untitled chat",
+        [CONVERSATION_KEYS.created]: moment(data.createdAt).format(FRONTMATTER_DATE_FORMAT),
+        [CONVERSATION_KEYS.updated]: moment(data.updatedAt).format(FRONTMATTER_DATE_FORMAT),
+        [CONVERSATION_KEYS.attachments]: collectAttachments(data, resolveVaultPath).map(wikilink)
+    };
+    const sections = data.messages
+        .map((message) => formatMessage(message, data.toolCalls, resolveVaultPath))
+        .filter((section): section is string => section !== null);
+
+    return `---\n${stringifyYaml(frontmatter)}---\n\n${sections.join("\n\n")}\n`;
+};
+
+/** The saved note of a session, found by its frontmatter. */
+export const findConversationNote = (app: App, folder: string, sessionId: string): TFile | null => {
+    const prefix = `${normalizePath(folder)}/`;
+    return app.vault.getMarkdownFiles().find((file) =>
+        file.path.startsWith(prefix) &&
+        app.metadataCache.getFileCache(file)?.frontmatter?.[CONVERSATION_KEYS.sessionId] === sessionId
+    ) ?? null;
+};
+
+const toFileName = (title: string) =>
+    title.replace(/[\\/:*?"<>|#^[\]]/g, " ").replace(/\s+/g, " ").trim().slice(0, TITLE_LENGTH) || "Chat";
+
+const readFrontmatterString = (frontmatter: Record<string, unknown> | undefined, key: string): string =>
+    typeof frontmatter?.[key] === "string" ? frontmatter[key] : "";
+
+/** Frontmatter `created` as a timestamp, or null when missing or malformed. */
+const readCreatedAt = (frontmatter: Record<string, unknown> | undefined): number | null => {
+    const created = moment(readFrontmatterString(frontmatter, CONVERSATION_KEYS.created), FRONTMATTER_DATE_FORMAT);
+    return created.isValid() ? created.valueOf() : null;
+};
+
+/**
+ * Writes the conversation to `existing`, or to a new note in `folder` named
+ * after its start time and title. Returns the note.
+ */
+export const writeConversationNote = async (
+    app: App,
+    folder: string,
+    data: ConversationNoteData,
+    resolveVaultPath: VaultPathResolver,
+    existing: TFile | null
+): Promise<TFile> => {
+    if (existing) {
+        const frontmatter = app.metadataCache.getFileCache(existing)?.frontmatter;
+        // Keep a title given in the history panel unless the agent sent one.
+        const savedTitle = readFrontmatterString(frontmatter, CONVERSATION_KEYS.title);
+        const title = data.title ?? (savedTitle || null);
+        // A resumed conversation starts a new transcript; its note keeps the original date.
+        const createdAt = readCreatedAt(frontmatter) ?? data.createdAt;
+        await app.vault.modify(existing, formatConversationNote({ ...data, title, createdAt }, resolveVaultPath));
+        return existing;
+    }
+
+    const content = formatConversationNote(data, resolveVaultPath);
+
+    const folderPath = normalizePath(folder);
+    if (!app.vault.getFolderByPath(folderPath)) {
+        await app.vault.createFolder(folderPath);
+    }
+
+    const title = data.title ?? getFallbackTitle(data.messages) ?? "Chat";
+    const base = `${folderPath}/${moment(data.createdAt).format("YYYY-MM-DD HHmm")} ${toFileName(title)}`;
+    let path = normalizePath(`${base}.md`);
+    for (let index = 2; app.vault.getAbstractFileByPath(path); index++) {
+        path = normalizePath(`${base} ${index}.md`);
+    }
+
+    return app.vault.create(path, content);
+};
+
+export type ConversationSummary = {
+    path: string;
+    title: string;
+    agentName: string;
+    agentProfileId: string;
+    sessionId: string | null;
+    /** Frontmatter `created`, or the file's creation time. */
+    createdAt: number;
+    firstPrompt: string;
+    /** Note body without frontmatter, for full-text search. */
+    text: string;
+};
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+/** The first prompt of a note written by `formatConversationNote`, on one line. */
+export const extractFirstPrompt = (body: string): string => {
+    const lines = body.split("\n");
+    const start = lines.findIndex((line) => line.startsWith("> [!user]"));
+    if (start === -1) {
+        return "";
+    }
+
+    const prompt: string[] = [];
+    for (let index = start + 1; index < lines.length && lines[index]!.startsWith(">"); index++) {
+        prompt.push(lines[index]!.replace(/^> ?/, ""));
+    }
+    return prompt.join(" ").replace(/\s+/g, " ").trim().slice(0, PROMPT_PREVIEW_LENGTH);
+};
+
+/** Saved conversations in `folder`, newest first. */
+export const listConversationNotes = async (app: App, folder: string): Promise<ConversationSummary[]> => {
+    const prefix = `${normalizePath(folder)}/`;
+    const files = app.vault.getMarkdownFiles().filter((file) => file.path.startsWith(prefix));
+    const summaries = await Promise.all(files.map(async (file): Promise<ConversationSummary | null> => {
+        const cache = app.metadataCache.getFileCache(file);
+        const frontmatter = cache?.frontmatter;
+        if (!frontmatter || !(CONVERSATION_KEYS.sessionId in frontmatter)) {
+            return null;
+        }
+
+        const content = await app.vault.cachedRead(file);
+        const body = cache.frontmatterPosition ? content.slice(cache.frontmatterPosition.end.offset) : content;
+        return {
+            path: file.path,
+            title: readFrontmatterString(frontmatter, CONVERSATION_KEYS.title) || file.basename,
+            agentName: readFrontmatterString(frontmatter, CONVERSATION_KEYS.agent),
+            agentProfileId: readFrontmatterString(frontmatter, CONVERSATION_KEYS.agentProfileId),
+            sessionId: readFrontmatterString(frontmatter, CONVERSATION_KEYS.sessionId) || null,
+            createdAt: readCreatedAt(frontmatter) ?? file.stat.ctime,
+            firstPrompt: extractFirstPrompt(body),
+            text: body
+        };
+    }));
+
+    return summaries
+        .filter((summary): summary is ConversationSummary => summary !== null)
+        .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** Sets the title and renames the note to match, keeping its date prefix. */
+export const renameConversationNote = async (app: App, file: TFile, title: string): Promise<void> => {
+    await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        frontmatter[CONVERSATION_KEYS.title] = title;
+    });
+
+    const prefix = /^\d{4}-\d{2}-\d{2} \d{4} /.exec(file.basename)?.[0] ?? "";
+    const base = `${file.parent?.path ?? ""}/${prefix}${toFileName(title)}`;
+    let path = normalizePath(`${base}.md`);
+    for (let index = 2; path !== file.path && app.vault.getAbstractFileByPath(path); index++) {
+        path = normalizePath(`${base} ${index}.md`);
+    }
+    if (path !== file.path) {
+        await app.fileManager.renameFile(file, path);
+    }
+};
+
+/**
+ * Copies the note as a new conversation. The copy drops the session id, so
+ * it stays read-only and later saves of the original never land in it.
+ */
+export const duplicateConversationNote = async (app: App, file: TFile): Promise<TFile> => {
+    let path = normalizePath(`${file.parent?.path ?? ""}/${file.basename} copy.md`);
+    for (let index = 2; app.vault.getAbstractFileByPath(path); index++) {
+        path = normalizePath(`${file.parent?.path ?? ""}/${file.basename} copy ${index}.md`);
+    }
+
+    const copy = await app.vault.copy(file, path);
+    await app.fileManager.processFrontMatter(copy, (frontmatter: Record<string, unknown>) => {
+        const title = frontmatter[CONVERSATION_KEYS.title];
+        frontmatter[CONVERSATION_KEYS.sessionId] = "";
+        frontmatter[CONVERSATION_KEYS.title] = `${typeof title === "string" ? title : file.basename} (copy)`;
+    });
+    return copy;
+};
@@ -0,0 +1,119 @@
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    DIAGNOSTIC_LEVELS,
+    DiagnosticEntry,
+    DiagnosticLevel,
+    DiagnosticsLog,
+    filterDiagnostics,
+} from "acp/diagnostics";
+
+interface DiagnosticsPanelProps {
+    log: DiagnosticsLog;
+    protocolLogging: boolean;
+    onProtocolLoggingChange: (enabled: boolean) => void;
+    onCopyReport: (entries: DiagnosticEntry[]) => void;
+}
+
+const LEVEL_LABELS: Record<DiagnosticLevel, string> = {
+    debug: "Debug and above",
+    info: "Info and above",
+    warn: "Warnings and errors",
+    error: "Errors only",
+};
+
+export const DiagnosticsPanel = ({
+    log,
+    protocolLogging,
+    onProtocolLoggingChange,
+    onCopyReport,
+}: DiagnosticsPanelProps) => {
+    const [entries, setEntries] = useState<DiagnosticEntry[]>(() => log.getEntries());
+    const [minLevel, setMinLevel] = useState<DiagnosticLevel>("info");
+    const [isProtocolLogging, setIsProtocolLogging] = useState(protocolLogging);
+    const scrollAnchorRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => {
+        setEntries(log.getEntries());
+        return log.subscribe(() => {
+            setEntries(log.getEntries());
+        });
+    }, [log]);
+
+    useEffect(() => {
+        setIsProtocolLogging(protocolLogging);
+    }, [protocolLogging]);
+
+    const visibleEntries = useMemo(() => filterDiagnostics(entries, minLevel), [entries, minLevel]);
+
+    useEffect(() => {
+        scrollAnchorRef.current?.scrollIntoView({ block: "end" });
+    }, [visibleEntries]);
+
+    const handleProtocolLoggingChange = useCallback((enabled: boolean) => {
+        setIsProtocolLogging(enabled);
+        if (enabled) {
+            // Protocol messages are logged at debug level.
+            setMinLevel("debug");
+        }
+        onProtocolLoggingChange(enabled);
+    }, [onProtocolLoggingChange]);
+
+    return (
+        <div className="assistant-diagnostics-root">
+            <header className="assistant-diagnostics-toolbar">
+                <select
+                    className="dropdown"
+                    value={minLevel}
+                    onChange={(event) => setMinLevel(event.target.value as DiagnosticLevel)}
+                    aria-label="Minimum level"
+                >
+                    {DIAGNOSTIC_LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                            {LEVEL_LABELS[level]}
+                        </option>
+                    ))}
+                </select>
+                <label className="assistant-diagnostics-toggle">
+                    <input
+                        type="checkbox"
+                        checked={isProtocolLogging}
+                        onChange={(event) => handleProtocolLoggingChange(event.target.checked)}
+                    />
+                    Log protocol messages
+                </label>
+                <div className="assistant-diagnostics-actions">
+                    <button type="button" onClick={() => onCopyReport(visibleEntries)}>
+                        Copy for bug report
+                    </button>
+                    <button type="button" onClick={() => log.clear()}>
+                        Clear
+                    </button>
+                </div>
+            </header>
+            <div className="assistant-diagnostics-entries" role="log" aria-live="polite">
+                {visibleEntries.length === 0 ? (
+                    <div className="assistant-diagnostics-empty">No entries at this level.</div>
+                ) : (
+                    visibleEntries.map((entry) => <DiagnosticRow key={entry.id} entry={entry} />)
+                )}
+                <div ref={scrollAnchorRef} />
+            </div>
+        </div>
+    );
+};
+
+const DiagnosticRow = memo(function DiagnosticRow({ entry }: { entry: DiagnosticEntry }) {
+    const time = new Date(entry.timestamp).toLocaleTimeString();
+    const source = entry.direction
+        ? `${entry.source} ${entry.direction === "out" ? "→" : "←"}`
+        : entry.source;
+
+    return (
+        <div className={`assistant-diagnostics-entry is-${entry.level}`}>
+            <span className="assistant-diagnostics-meta">
+                {time} · {entry.level} · {entry.profileId} · {source}
+            </span>
+            <pre className="assistant-diagnostics-message">{entry.message}</pre>
+        </div>
+    );
+});
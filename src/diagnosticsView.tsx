@@ -0,0 +1,76 @@
+import { StrictMode } from "react";
+import { ItemView, Notice, Platform, WorkspaceLeaf } from "obsidian";
+import { createRoot, Root } from "react-dom/client";
+import type ObsidianAssistantPlugin from "main";
+import { DiagnosticEntry, formatDiagnosticsReport } from "acp/diagnostics";
+import { DiagnosticsPanel } from "diagnostics/DiagnosticsPanel";
+
+export const VIEW_TYPE_DIAGNOSTICS = "assistant-diagnostics";
+
+export class AssistantDiagnosticsView extends ItemView {
+    root: Root | null = null;
+    private plugin: ObsidianAssistantPlugin;
+
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianAssistantPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return VIEW_TYPE_DIAGNOSTICS;
+    }
+
+    getDisplayText() {
+        return "Agent diagnostics";
+    }
+
+    getIcon() {
+        return "activity";
+    }
+
+    async onOpen() {
+        this.containerEl.empty();
+        const rootEl = this.containerEl.createDiv({ cls: "assistant-diagnostics-view" });
+        this.root = createRoot(rootEl);
+        this.render();
+    }
+
+    render() {
+        this.root?.render(
+            <StrictMode>
+                <DiagnosticsPanel
+                    log={this.plugin.diagnostics}
+                    protocolLogging={this.plugin.settings.protocolLogging}
+                    onProtocolLoggingChange={(enabled) => {
+                        this.plugin.settings.protocolLogging = enabled;
+                        void this.plugin.saveSettings();
+                    }}
+                    onCopyReport={(entries) => {
+                        void this.copyReport(entries);
+                    }}
+                />
+            </StrictMode>
+        );
+    }
+
+    async onClose() {
+        this.root?.unmount();
+        this.root = null;
+    }
+
+    private async copyReport(entries: DiagnosticEntry[]) {
+        const report = formatDiagnosticsReport(entries, {
+            pluginVersion: this.plugin.manifest.version,
+            platform: Platform.isMacOS ? "macOS" : Platform.isWin ? "Windows" : Platform.isLinux ? "Linux" : "unknown",
+            profiles: this.plugin.settings.agentProfiles
+        });
+
+        try {
+            await navigator.clipboard.writeText(report);
+            new Notice("Diagnostics copied to clipboard.");
+        } catch (error) {
+            console.warn("Copy diagnostics failed", error);
+            new Notice("Could not copy diagnostics.");
+        }
+    }
+}
@@ -1,54 +1,236 @@
-import { Plugin, WorkspaceLeaf } from "obsidian";
-import { DEFAULT_SETTINGS, AssistantSettingTab, AssistantSettings } from "./settings";
+import { Notice, Plugin, WorkspaceLeaf } from "obsidian";
+import { DEFAULT_SETTINGS, AssistantSettingTab, AssistantSettings, normalizeSettings } from "./settings";
 import { AssistantChatView, VIEW_TYPE_EXAMPLE } from "chatView";
-import AcpClient from "acp/client";
+import { AssistantDiagnosticsView, VIEW_TYPE_DIAGNOSTICS } from "diagnosticsView";
+import { AgentProfile } from "acp/profiles";
+import { SessionStore, findLastSession, upsertSavedSession } from "acp/sessions";
+import { SessionManager } from "acp/sessionManager";
+import { DiagnosticsLog } from "acp/diagnostics";
+import { TraceSelectModal, listTraceFiles, saveTrace } from "traceFiles";
+import { CHAT_HOVER_SOURCE } from "chat/constants";
 
 export default class ObsidianAssistantPlugin extends Plugin {
 	settings: AssistantSettings = DEFAULT_SETTINGS;
+	// Agent profiles as last applied to the running agents.
+	private syncedProfiles = '';
 
-	private acpClient: AcpClient | null = null;
+	diagnostics: DiagnosticsLog = new DiagnosticsLog({
+		isProtocolLoggingEnabled: () => this.settings.protocolLogging
+	});
+
+	sessionManager: SessionManager = new SessionManager({
+		app: this.app,
+		getProfiles: () => this.settings.agentProfiles,
+		getMcpServers: () => this.settings.mcpServers,
+		isWriteReviewEnabled: () => this.settings.reviewWrites,
+		getAccessRules: () => this.settings.accessRules,
+		sessionStore: this.createSessionStore(),
+		diagnostics: this.diagnostics
+	});
 
 	async onload() {
 		this.registerView(
 			VIEW_TYPE_EXAMPLE,
-			(leaf) => new AssistantChatView(leaf, () => this.getOrCreateAcpClient())
+			(leaf) => new AssistantChatView(leaf, this)
+		);
+		this.registerView(
+			VIEW_TYPE_DIAGNOSTICS,
+			(leaf) => new AssistantDiagnosticsView(leaf, this)
 		);
 		await this.loadSettings();
 		this.addSettingTab(new AssistantSettingTab(this.app, this));
+		this.registerHoverLinkSource(CHAT_HOVER_SOURCE, {
+			display: 'Assistant chat',
+			defaultMod: true
+		});
 
 		// This creates an icon in the left ribbon.
 		this.addRibbonIcon('dice', 'Open assistant view', () => {
 			void this.activateView();
-			const client = this.getOrCreateAcpClient();
-			void client.initialize();
 		});
 
+		this.addCommand({
+			id: 'open-assistant-pane',
+			name: 'Open new assistant pane',
+			callback: () => {
+				void this.openNewPane();
+			}
+		});
 
-		this.registerEvent(this.app.workspace.on("quit", () => {
-			if (this.acpClient) {
-				this.acpClient.disconnect().catch((error) => {
-					console.warn(`Quit cleanup error: ${error}`)
-				});
+		this.addCommand({
+			id: 'open-agent-diagnostics',
+			name: 'Open agent diagnostics',
+			callback: () => {
+				void this.activateDiagnosticsView();
+			}
+		});
+
+		this.addCommand({
+			id: 'start-trace-recording',
+			name: 'Start recording agent trace',
+			checkCallback: (checking) => {
+				if (this.sessionManager.getTraceRecorder()) {
+					return false;
+				}
+				if (!checking) {
+					void this.startTraceRecording();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'stop-trace-recording',
+			name: 'Stop recording agent trace',
+			checkCallback: (checking) => {
+				if (!this.sessionManager.getTraceRecorder()) {
+					return false;
+				}
+				if (!checking) {
+					void this.stopTraceRecording();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'export-conversation',
+			name: 'Save current chat as note',
+			checkCallback: (checking) => {
+				const view = this.getChatViewForCommand();
+				if (!view) {
+					return false;
+				}
+				if (!checking) {
+					void view.exportConversation();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'replay-agent-trace',
+			name: 'Replay agent trace',
+			callback: () => {
+				void this.chooseTraceToReplay();
 			}
+		});
+
+		this.registerEvent(this.app.workspace.on("quit", () => {
+			this.sessionManager.disconnectAll().catch((error) => {
+				console.warn(`Quit cleanup error: ${error}`)
+			});
 		}))
 	}
 
 	onunload() {
-		if (this.acpClient) {
-			void this.acpClient.disconnect();
-		}
+		void this.sessionManager.disconnectAll();
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			(await this.loadData()) as Partial<AssistantSettings>
+		this.settings = normalizeSettings(
+			(await this.loadData()) as Partial<AssistantSettings> | null,
+			this.app.vault.configDir
 		);
+		this.syncedProfiles = JSON.stringify(this.settings.agentProfiles);
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		// Changed launch settings restart the agent, so skip saves that leave profiles alone.
+		const profiles = JSON.stringify(this.settings.agentProfiles);
+		if (profiles !== this.syncedProfiles) {
+			this.syncedProfiles = profiles;
+			await this.sessionManager.syncProfiles();
+		}
+		this.refreshViews();
+	}
+
+	getActiveAgentProfile(): AgentProfile {
+		const { agentProfiles, activeAgentProfileId } = this.settings;
+		return agentProfiles.find((profile) => profile.id === activeAgentProfileId)
+			?? agentProfiles[0]
+			?? DEFAULT_SETTINGS.agentProfiles[0]!;
+	}
+
+	async setActiveAgentProfile(id: string) {
+		if (!this.settings.agentProfiles.some((profile) => profile.id === id)) {
+			return;
+		}
+
+		this.settings.activeAgentProfileId = id;
+		await this.saveSettings();
+	}
+
+	async setDefaultMode(profileId: string, modeId: string) {
+		const profile = this.settings.agentProfiles.find((item) => item.id === profileId);
+		if (!profile || profile.defaultModeId === modeId) {
+			return;
+		}
+
+		profile.defaultModeId = modeId;
+		await this.saveSettings();
+	}
+
+	async removeAgentProfile(id: string) {
+		const remaining = this.settings.agentProfiles.filter((profile) => profile.id !== id);
+		if (remaining.length === 0) {
+			return;
+		}
+
+		this.settings.agentProfiles = remaining;
+		this.settings.sessions = this.settings.sessions
+			.filter((session) => session.agentProfileId !== id);
+		for (const server of this.settings.mcpServers) {
+			server.enabledAgentProfileIds = server.enabledAgentProfileIds
+				.filter((profileId) => profileId !== id);
+		}
+		if (this.settings.activeAgentProfileId === id) {
+			this.settings.activeAgentProfileId = remaining[0]!.id;
+		}
+		await this.saveSettings();
+	}
+
+	private createSessionStore(): SessionStore {
+		return {
+			getSession: (sessionId) =>
+				this.settings.sessions.find((session) => session.sessionId === sessionId) ?? null,
+			getLastSession: (agentProfileId, cwd, excludeSessionIds) =>
+				findLastSession(this.settings.sessions, agentProfileId, cwd, excludeSessionIds),
+			saveSession: async (session) => {
+				this.settings.sessions = upsertSavedSession(this.settings.sessions, session);
+				await this.saveData(this.settings);
+			},
+			removeSession: async (sessionId) => {
+				this.settings.sessions = this.settings.sessions
+					.filter((session) => session.sessionId !== sessionId);
+				await this.saveData(this.settings);
+			}
+		};
+	}
+
+	/** The focused chat pane, or else the first one open. */
+	private getChatViewForCommand(): AssistantChatView | null {
+		const active = this.app.workspace.getActiveViewOfType(AssistantChatView);
+		if (active) {
+			return active;
+		}
+
+		const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_EXAMPLE)[0];
+		return leaf?.view instanceof AssistantChatView ? leaf.view : null;
+	}
+
+	private refreshViews() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_EXAMPLE)) {
+			if (leaf.view instanceof AssistantChatView) {
+				leaf.view.render();
+			}
+		}
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_DIAGNOSTICS)) {
+			if (leaf.view instanceof AssistantDiagnosticsView) {
+				leaf.view.render();
+			}
+		}
 	}
 
 	async activateView() {
@@ -71,11 +253,70 @@ export default class ObsidianAssistantPlugin extends Plugin {
 		await workspace.revealLeaf(leaf as WorkspaceLeaf);
 	}
 
-	getOrCreateAcpClient(): AcpClient {
-		if (!this.acpClient) {
-			this.acpClient = new AcpClient({ app: this.app });
+	async activateDiagnosticsView() {
+		const { workspace } = this.app;
+		const leaf = workspace.getLeavesOfType(VIEW_TYPE_DIAGNOSTICS)[0] ?? workspace.getLeaf('tab');
+		if (!(leaf.view instanceof AssistantDiagnosticsView)) {
+			await leaf.setViewState({ type: VIEW_TYPE_DIAGNOSTICS, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	async startTraceRecording() {
+		const profile = this.getActiveAgentProfile();
+		await this.sessionManager.startTraceRecording(profile.id);
+		new Notice(`Recording agent trace for ${profile.name}. The agent was restarted so the trace starts with its handshake.`);
+	}
+
+	async stopTraceRecording() {
+		const recorder = this.sessionManager.stopTraceRecording();
+		if (!recorder) {
+			return;
+		}
+
+		if (recorder.size === 0) {
+			new Notice('No agent traffic was recorded.');
+			return;
+		}
+
+		try {
+			const path = await saveTrace(this.app, this.manifest, recorder);
+			new Notice(`Agent trace saved to ${path}.`);
+		} catch (error) {
+			console.warn('Saving agent trace failed', error);
+			new Notice('Could not save the agent trace.');
+		}
+	}
+
+	async chooseTraceToReplay() {
+		const paths = await listTraceFiles(this.app, this.manifest);
+		if (paths.length === 0) {
+			new Notice('No agent traces found.');
+			return;
 		}
 
-		return this.acpClient;
+		new TraceSelectModal(this.app, paths, (path) => {
+			void this.openReplayPane(path);
+		}).open();
+	}
+
+	async openReplayPane(replayTracePath: string) {
+		const leaf = this.app.workspace.getLeaf("split");
+		await leaf.setViewState({
+			type: VIEW_TYPE_EXAMPLE,
+			active: true,
+			state: { replayTracePath }
+		});
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	async openNewPane() {
+		const leaf = this.app.workspace.getLeaf("split");
+		await leaf.setViewState({
+			type: VIEW_TYPE_EXAMPLE,
+			active: true,
+			state: { agentProfileId: this.getActiveAgentProfile().id, sessionId: null }
+		});
+		await this.app.workspace.revealLeaf(leaf);
 	}
 }
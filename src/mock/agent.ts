@@ -0,0 +1,336 @@
+/**
+ * Scriptable mock agent that speaks ACP over stdio. Built to
+ * `build/mock-agent.js` and run by a profile, usually through Obsidian's own
+ * binary with `ELECTRON_RUN_AS_NODE=1`:
+ *
+ *     mock-agent.js [--scenario path/to/scenario.json]
+ *
+ * Relative scenario paths resolve against the working directory (the vault).
+ */
+import * as acp from "@agentclientprotocol/sdk";
+import { readFileSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import {
+    DEFAULT_SCENARIO,
+    Scenario,
+    ScenarioStep,
+    fillTemplate,
+    parseScenario,
+    selectTurn,
+} from "./scenario";
+
+type MockSession = {
+    cwd: string;
+    turnIndex: number;
+    lastRead: string;
+    cancelled: boolean;
+    modeId: string | null;
+    configOptions: acp.SessionConfigOption[];
+};
+
+const loadScenario = (argv: string[]): Scenario => {
+    const index = argv.indexOf("--scenario");
+    const path = index >= 0 ? argv[index + 1] : undefined;
+    if (!path) {
+        return DEFAULT_SCENARIO;
+    }
+
+    return parseScenario(readFileSync(resolve(process.cwd(), path), "utf8"));
+};
+
+const sleep = (ms: number) => new Promise<void>((done) => setTimeout(done, ms));
+
+const promptToText = (prompt: acp.ContentBlock[]): string =>
+    prompt
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join(" ")
+        .trim();
+
+class MockAgent implements acp.Agent {
+    private sessions = new Map<string, MockSession>();
+    private nextSessionId = 1;
+    private authenticated = false;
+
+    constructor(
+        private connection: acp.AgentSideConnection,
+        private scenario: Scenario
+    ) {}
+
+    initialize(): Promise<acp.InitializeResponse> {
+        return Promise.resolve({
+            protocolVersion: acp.PROTOCOL_VERSION,
+            agentCapabilities: {
+                loadSession: false,
+                promptCapabilities: this.scenario.promptCapabilities ?? { embeddedContext: true }
+            },
+            authMethods: this.scenario.authMethods ?? []
+        });
+    }
+
+    authenticate(params: acp.AuthenticateRequest): Promise<void> {
+        if (!this.scenario.authMethods?.some((method) => method.id === params.methodId)) {
+            return Promise.reject(acp.RequestError.invalidParams({ methodId: params.methodId }, "Unknown auth method"));
+        }
+        this.authenticated = true;
+        return Promise.resolve();
+    }
+
+    newSession(params: acp.NewSessionRequest): Promise<acp.NewSessionResponse> {
+        if (this.scenario.authMethods?.length && !this.authenticated) {
+            return Promise.reject(acp.RequestError.authRequired(undefined, "the mock scenario requires signing in"));
+        }
+        const sessionId = `mock-${process.pid}-${this.nextSessionId++}`;
+        const modes = this.scenario.modes ?? [];
+        const modeId = modes[0]?.id ?? null;
+        const configOptions = (this.scenario.configOptions ?? []).map((option) => ({ ...option }));
+        this.sessions.set(sessionId, {
+            cwd: params.cwd,
+            turnIndex: 0,
+            lastRead: "",
+            cancelled: false,
+            modeId,
+            configOptions
+        });
+        return Promise.resolve({
+            sessionId,
+            modes: modeId ? { currentModeId: modeId, availableModes: modes } : undefined,
+            configOptions: configOptions.length > 0 ? configOptions : undefined
+        });
+    }
+
+    setSessionMode(params: acp.SetSessionModeRequest): Promise<void> {
+        const session = this.sessions.get(params.sessionId);
+        if (!session || !this.scenario.modes?.some((mode) => mode.id === params.modeId)) {
+            return Promise.reject(acp.RequestError.invalidParams({ modeId: params.modeId }, "Unknown session or mode"));
+        }
+        session.modeId = params.modeId;
+        return Promise.resolve();
+    }
+
+    async prompt(params: acp.PromptRequest): Promise<acp.PromptResponse> {
+        const session = this.sessions.get(params.sessionId);
+        if (!session) {
+            throw acp.RequestError.invalidParams({ sessionId: params.sessionId }, "Unknown session");
+        }
+
+        session.cancelled = false;
+        const prompt = promptToText(params.prompt);
+        const turn = selectTurn(this.scenario, prompt, session.turnIndex);
+        if (!turn?.match) {
+            session.turnIndex += 1;
+        }
+
+        for (const step of turn?.steps ?? []) {
+            if (session.cancelled) {
+                return { stopReason: "cancelled" };
+            }
+
+            const proceed = await this.runStep(params.sessionId, session, step, prompt);
+            if (!proceed) {
+                break;
+            }
+        }
+
+        return { stopReason: session.cancelled ? "cancelled" : "end_turn" };
+    }
+
+    cancel(params: acp.CancelNotification): Promise<void> {
+        const session = this.sessions.get(params.sessionId);
+        if (session) {
+            session.cancelled = true;
+        }
+        return Promise.resolve();
+    }
+
+    unstable_setSessionConfigOption(
+        params: acp.SetSessionConfigOptionRequest
+    ): Promise<acp.SetSessionConfigOptionResponse> {
+        const session = this.sessions.get(params.sessionId);
+        const option = session?.configOptions.find((item) => item.id === params.configId);
+        if (!session || !option) {
+            return Promise.reject(
+                acp.RequestError.invalidParams({ configId: params.configId }, "Unknown session or config option")
+            );
+        }
+        option.currentValue = params.value;
+        return Promise.resolve({ configOptions: session.configOptions });
+    }
+
+    /** Returns false when the turn should stop. */
+    private async runStep(
+        sessionId: string,
+        session: MockSession,
+        step: ScenarioStep,
+        prompt: string
+    ): Promise<boolean> {
+        const fill = (text: string) => fillTemplate(text, { prompt, lastRead: session.lastRead });
+        const toPath = (path: string) => (isAbsolute(path) ? path : join(session.cwd, path));
+        const update = (sessionUpdate: acp.SessionUpdate) =>
+            this.connection.sessionUpdate({ sessionId, update: sessionUpdate });
+
+        switch (step.type) {
+            case "message":
+            case "thought": {
+                const kind = step.type === "message" ? "agent_message_chunk" : "agent_thought_chunk";
+                for (const chunk of fill(step.text).match(/\S+\s*/g) ?? []) {
+                    if (session.cancelled) {
+                        return false;
+                    }
+                    await update({ sessionUpdate: kind, content: { type: "text", text: chunk } });
+                    await sleep(this.scenario.chunkDelayMs ?? 0);
+                }
+                return true;
+            }
+            case "content": {
+                await update({ sessionUpdate: "agent_message_chunk", content: step.content });
+                return true;
+            }
+            case "tool_call": {
+                await update({
+                    sessionUpdate: "tool_call",
+                    toolCallId: step.toolCallId,
+                    title: fill(step.title),
+                    kind: step.kind ?? "other",
+                    status: step.status ?? "pending",
+                    locations: (step.locations ?? []).map((path) => ({ path: toPath(path) }))
+                });
+                return true;
+            }
+            case "tool_call_update": {
+                await update({
+                    sessionUpdate: "tool_call_update",
+                    toolCallId: step.toolCallId,
+                    status: step.status,
+                    content: step.text
+                        ? [{ type: "content", content: { type: "text", text: fill(step.text) } }]
+                        : undefined
+                });
+                return true;
+            }
+            case "plan": {
+                await update({
+                    sessionUpdate: "plan",
+                    entries: step.entries.map((entry) => ({ ...entry, content: fill(entry.content) }))
+                });
+                return true;
+            }
+            case "permission": {
+                const response = await this.connection.requestPermission({
+                    sessionId,
+                    toolCall: { toolCallId: step.toolCallId, title: fill(step.title), kind: step.kind ?? "other" },
+                    options: [
+                        { optionId: "allow", name: "Allow", kind: "allow_once" },
+                        { optionId: "reject", name: "Reject", kind: "reject_once" }
+                    ]
+                });
+                const allowed = response.outcome.outcome === "selected" && response.outcome.optionId === "allow";
+                if (!allowed) {
+                    await update({ sessionUpdate: "tool_call_update", toolCallId: step.toolCallId, status: "failed" });
+                    await update({
+                        sessionUpdate: "agent_message_chunk",
+                        content: { type: "text", text: "Permission was not granted, so I stopped." }
+                    });
+                }
+                return allowed;
+            }
+            case "read_file": {
+                try {
+                    const result = await this.connection.readTextFile({
+                        sessionId,
+                        path: toPath(step.path),
+                        line: step.line,
+                        limit: step.limit
+                    });
+                    session.lastRead = result.content;
+                } catch (error) {
+                    session.lastRead = "";
+                    await this.reportFailure(sessionId, step.toolCallId, `Read failed: ${describeError(error)}`);
+                }
+                return true;
+            }
+            case "write_file": {
+                try {
+                    await this.connection.writeTextFile({
+                        sessionId,
+                        path: toPath(step.path),
+                        content: fill(step.content)
+                    });
+                } catch (error) {
+                    await this.reportFailure(sessionId, step.toolCallId, `Write failed: ${describeError(error)}`);
+                }
+                return true;
+            }
+            case "commands": {
+                await update({ sessionUpdate: "available_commands_update", availableCommands: step.commands });
+                return true;
+            }
+            case "mode": {
+                session.modeId = step.modeId;
+                await update({ sessionUpdate: "current_mode_update", currentModeId: step.modeId });
+                return true;
+            }
+            case "delay": {
+                await sleep(step.ms);
+                return true;
+            }
+            case "exit": {
+                process.exit(step.code);
+                return false;
+            }
+            default:
+                return true;
+        }
+    }
+
+    private async reportFailure(sessionId: string, toolCallId: string | undefined, text: string) {
+        process.stderr.write(`${text}\n`);
+        if (!toolCallId) {
+            return;
+        }
+
+        await this.connection.sessionUpdate({
+            sessionId,
+            update: {
+                sessionUpdate: "tool_call_update",
+                toolCallId,
+                status: "failed",
+                content: [{ type: "content", content: { type: "text", text } }]
+            }
+        });
+    }
+}
+
+const describeError = (error: unknown): string => {
+    if (error instanceof Error) {
+        return error.message;
+    }
+    if (typeof error === "object" && error !== null && "message" in error) {
+        return String((error as { message: unknown }).message);
+    }
+    return String(error);
+};
+
+const main = () => {
+    const scenario = loadScenario(process.argv.slice(2));
+    process.stderr.write(`Mock agent running scenario "${scenario.name}"\n`);
+
+    const input = new WritableStream<Uint8Array>({
+        write(chunk) {
+            process.stdout.write(chunk);
+        }
+    });
+    const output = new ReadableStream<Uint8Array>({
+        start(controller) {
+            process.stdin.on("data", (chunk: Uint8Array) => controller.enqueue(chunk));
+            process.stdin.on("end", () => controller.close());
+        }
+    });
+
+    const connection = new acp.AgentSideConnection(
+        (conn) => new MockAgent(conn, scenario),
+        acp.ndJsonStream(input, output)
+    );
+    void connection.closed.then(() => process.exit(0));
+};
+
+main();
@@ -0,0 +1,171 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+/**
+ * One action of the mock agent. Text fields accept `{{prompt}}` (the prompt
+ * text) and `{{lastRead}}` (the content returned by the last `read_file`).
+ */
+export type ScenarioStep =
+    | { type: "message"; text: string }
+    | { type: "thought"; text: string }
+    /** Sends a non-text block, such as an image or resource link, as message content. */
+    | { type: "content"; content: acp.ContentBlock }
+    | {
+        type: "tool_call";
+        toolCallId: string;
+        title: string;
+        kind?: acp.ToolKind;
+        status?: acp.ToolCallStatus;
+        /** Paths relative to the session cwd. */
+        locations?: string[];
+    }
+    | { type: "tool_call_update"; toolCallId: string; status?: acp.ToolCallStatus; text?: string }
+    | { type: "plan"; entries: acp.PlanEntry[] }
+    /** Asks for permission; a rejection ends the turn. */
+    | { type: "permission"; toolCallId: string; title: string; kind?: acp.ToolKind }
+    /** Calls `fs/read_text_file`; failures are reported and the turn continues. */
+    | { type: "read_file"; path: string; toolCallId?: string; line?: number; limit?: number }
+    /** Calls `fs/write_text_file`. */
+    | { type: "write_file"; path: string; content: string; toolCallId?: string }
+    /** Sends `available_commands_update`. */
+    | { type: "commands"; commands: acp.AvailableCommand[] }
+    /** Switches the session mode and sends `current_mode_update`. */
+    | { type: "mode"; modeId: string }
+    | { type: "delay"; ms: number }
+    /** Exits the agent process mid-turn, to exercise crash handling. */
+    | { type: "exit"; code: number };
+
+export type ScenarioTurn = {
+    /** Regular expression tested against the prompt text. */
+    match?: string;
+    steps: ScenarioStep[];
+};
+
+export type Scenario = {
+    name: string;
+    /** Delay between streamed message chunks. */
+    chunkDelayMs?: number;
+    /** Advertised in `initialize`; defaults to embedded context only. */
+    promptCapabilities?: acp.PromptCapabilities;
+    /** When set, `session/new` requires `authenticate` with one of these first. */
+    authMethods?: acp.AuthMethod[];
+    /** Modes offered by `session/new`; the first is current. */
+    modes?: acp.SessionMode[];
+    /** Config options offered by `session/new`, e.g. a model selector. */
+    configOptions?: acp.SessionConfigOption[];
+    /**
+     * A turn whose `match` fits the prompt runs first; otherwise the turns
+     * without `match` run in order, wrapping around.
+     */
+    turns: ScenarioTurn[];
+};
+
+export const DEFAULT_SCENARIO: Scenario = {
+    name: "Default",
+    chunkDelayMs: 30,
+    turns: [
+        {
+            steps: [
+                { type: "thought", text: "The user said: {{prompt}}. Let me look at the vault." },
+                {
+                    type: "plan",
+                    entries: [
+                        { content: "Read the welcome note", priority: "high", status: "in_progress" },
+                        { content: "Write a summary note", priority: "medium", status: "pending" },
+                        { content: "Report back", priority: "low", status: "pending" }
+                    ]
+                },
+                {
+                    type: "tool_call",
+                    toolCallId: "read-welcome",
+                    title: "Read Welcome.md",
+                    kind: "read",
+                    status: "in_progress",
+                    locations: ["Welcome.md"]
+                },
+                { type: "read_file", path: "Welcome.md", toolCallId: "read-welcome", limit: 20 },
+                { type: "tool_call_update", toolCallId: "read-welcome", status: "completed" },
+                {
+                    type: "tool_call",
+                    toolCallId: "write-summary",
+                    title: "Write mock-agent-output.md",
+                    kind: "edit",
+                    status: "pending",
+                    locations: ["mock-agent-output.md"]
+                },
+                { type: "permission", toolCallId: "write-summary", title: "Write mock-agent-output.md", kind: "edit" },
+                {
+                    type: "write_file",
+                    path: "mock-agent-output.md",
+                    toolCallId: "write-summary",
+                    content: "# Mock agent output\n\nPrompt: {{prompt}}\n\nFirst lines of Welcome.md:\n\n{{lastRead}}\n"
+                },
+                { type: "tool_call_update", toolCallId: "write-summary", status: "completed" },
+                {
+                    type: "plan",
+                    entries: [
+                        { content: "Read the welcome note", priority: "high", status: "completed" },
+                        { content: "Write a summary note", priority: "medium", status: "completed" },
+                        { content: "Report back", priority: "low", status: "completed" }
+                    ]
+                },
+                {
+                    type: "message",
+                    text: "I'm the mock agent. I read Welcome.md and wrote mock-agent-output.md with your prompt: \"{{prompt}}\"."
+                }
+            ]
+        },
+        {
+            steps: [
+                { type: "thought", text: "Second turn, no tools this time." },
+                { type: "message", text: "You said \"{{prompt}}\". The next prompt starts the scenario again." }
+            ]
+        }
+    ]
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null;
+
+export const parseScenario = (text: string): Scenario => {
+    const data = JSON.parse(text) as unknown;
+    if (!isRecord(data) || !Array.isArray(data.turns)) {
+        throw new Error("Scenario must be an object with a `turns` array.");
+    }
+
+    data.turns.forEach((turn, index) => {
+        if (!isRecord(turn) || !Array.isArray(turn.steps)) {
+            throw new Error(`Scenario turn ${index + 1} has no \`steps\` array.`);
+        }
+    });
+
+    return {
+        name: typeof data.name === "string" ? data.name : "Custom",
+        chunkDelayMs: typeof data.chunkDelayMs === "number" ? data.chunkDelayMs : undefined,
+        promptCapabilities: isRecord(data.promptCapabilities)
+            ? (data.promptCapabilities as acp.PromptCapabilities)
+            : undefined,
+        authMethods: Array.isArray(data.authMethods) ? (data.authMethods as acp.AuthMethod[]) : undefined,
+        modes: Array.isArray(data.modes) ? (data.modes as acp.SessionMode[]) : undefined,
+        configOptions: Array.isArray(data.configOptions)
+            ? (data.configOptions as acp.SessionConfigOption[])
+            : undefined,
+        turns: data.turns as ScenarioTurn[]
+    };
+};
+
+/**
+ * Picks the turn for a prompt. `turnIndex` counts the unmatched turns played
+ * so far in the session.
+ */
+export const selectTurn = (scenario: Scenario, prompt: string, turnIndex: number): ScenarioTurn | null => {
+    const matched = scenario.turns.find((turn) => turn.match && new RegExp(turn.match, "i").test(prompt));
+    if (matched) {
+        return matched;
+    }
+
+    const fallback = scenario.turns.filter((turn) => !turn.match);
+    return fallback.length > 0 ? fallback[turnIndex % fallback.length] ?? null : null;
+};
+
+export const fillTemplate = (text: string, values: { prompt: string; lastRead: string }): string =>
+    text.replace(/\{\{(prompt|lastRead)\}\}/g, (_, key: "prompt" | "lastRead") => values[key]);
@@ -1,14 +1,128 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, FileSystemAdapter, Notice, PluginSettingTab, Setting, normalizePath } from "obsidian";
 import ObsidianAssistantPlugin from "./main";
+import {
+	AgentProfile,
+	DEFAULT_AGENT_PROFILE,
+	MOCK_AGENT_SCRIPT,
+	cloneAgentProfile,
+	createAgentProfileId,
+	createMockAgentProfile,
+	formatArgs,
+	formatEnv,
+	normalizeAgentProfile,
+	parseArgs,
+	parseEnv,
+} from "acp/profiles";
+import {
+	McpServerConfig,
+	McpTransport,
+	createMcpServerConfig,
+	formatHeaders,
+	normalizeMcpServerConfig,
+	parseHeaders,
+} from "acp/mcp";
+import { SavedSession, normalizeSavedSession } from "acp/sessions";
+import { getExecPath } from "acp/process";
+import {
+	AccessLevel,
+	AccessRule,
+	createAccessRule,
+	createDefaultAccessRules,
+	describeAccess,
+	evaluateAccess,
+	normalizeAccessRule,
+} from "acp/accessPolicy";
+import type { ThoughtDisplay } from "chat/types";
+import { DEFAULT_CONVERSATION_FOLDER } from "conversationNotes";
+
+const THOUGHT_DISPLAY_OPTIONS: Record<ThoughtDisplay, string> = {
+	expanded: 'Shown',
+	collapsed: 'Collapsed',
+	hidden: 'Hidden',
+};
 
 export interface AssistantSettings {
-	mySetting: string;
+	agentProfiles: AgentProfile[];
+	activeAgentProfileId: string;
+	mcpServers: McpServerConfig[];
+	sessions: SavedSession[];
+	protocolLogging: boolean;
+	reviewWrites: boolean;
+	accessRules: AccessRule[];
+	thoughtDisplay: ThoughtDisplay;
+	autoSaveConversations: boolean;
+	conversationFolder: string;
 }
 
 export const DEFAULT_SETTINGS: AssistantSettings = {
-	mySetting: 'default'
+	agentProfiles: [cloneAgentProfile(DEFAULT_AGENT_PROFILE)],
+	activeAgentProfileId: DEFAULT_AGENT_PROFILE.id,
+	mcpServers: [],
+	sessions: [],
+	protocolLogging: false,
+	reviewWrites: false,
+	accessRules: [],
+	thoughtDisplay: 'collapsed',
+	autoSaveConversations: false,
+	conversationFolder: DEFAULT_CONVERSATION_FOLDER
 }
 
+export const normalizeSettings = (
+	data: Partial<AssistantSettings> | null,
+	configDir: string
+): AssistantSettings => {
+	const profiles = Array.isArray(data?.agentProfiles) && data.agentProfiles.length > 0
+		? data.agentProfiles.map((profile) => normalizeAgentProfile(profile))
+		: DEFAULT_SETTINGS.agentProfiles.map(cloneAgentProfile);
+	const activeId = profiles.some((profile) => profile.id === data?.activeAgentProfileId)
+		? data!.activeAgentProfileId!
+		: profiles[0]!.id;
+
+	const mcpServers = Array.isArray(data?.mcpServers)
+		? data.mcpServers.map((server) => normalizeMcpServerConfig(server))
+		: [];
+
+	const sessions = Array.isArray(data?.sessions)
+		? data.sessions
+			.map((session) => normalizeSavedSession(session))
+			.filter((session): session is SavedSession => session !== null)
+		: [];
+
+	const accessRules = Array.isArray(data?.accessRules)
+		? data.accessRules.map((rule) => normalizeAccessRule(rule))
+		: createDefaultAccessRules(configDir);
+
+	return {
+		agentProfiles: profiles,
+		activeAgentProfileId: activeId,
+		mcpServers,
+		sessions,
+		protocolLogging: data?.protocolLogging === true,
+		reviewWrites: data?.reviewWrites === true,
+		accessRules,
+		thoughtDisplay: data?.thoughtDisplay && Object.prototype.hasOwnProperty.call(THOUGHT_DISPLAY_OPTIONS, data.thoughtDisplay)
+			? data.thoughtDisplay
+			: DEFAULT_SETTINGS.thoughtDisplay,
+		autoSaveConversations: data?.autoSaveConversations === true,
+		conversationFolder: typeof data?.conversationFolder === 'string' && data.conversationFolder.trim()
+			? normalizePath(data.conversationFolder.trim())
+			: DEFAULT_SETTINGS.conversationFolder
+	};
+};
+
+/**
+ * Calls `commit` when the user leaves the field or presses Enter. Used for
+ * settings that restart the agent, which would otherwise restart per keystroke.
+ */
+const commitOnBlurOrEnter = (
+	inputEl: HTMLInputElement | HTMLTextAreaElement,
+	commit: (value: string) => Promise<void>
+): void => {
+	inputEl.addEventListener('change', () => {
+		void commit(inputEl.value);
+	});
+};
+
 export class AssistantSettingTab extends PluginSettingTab {
 	plugin: ObsidianAssistantPlugin;
 
@@ -17,20 +131,416 @@ export class AssistantSettingTab extends PluginSettingTab {
 		this.plugin = plugin;
 	}
 
+	hide(): void {
+		// Closing the tab with a field focused still commits its edit.
+		const focused = this.containerEl.doc.activeElement;
+		if (focused instanceof HTMLElement && this.containerEl.contains(focused)) {
+			focused.blur();
+		}
+		super.hide();
+	}
+
 	display(): void {
 		const {containerEl} = this;
 
 		containerEl.empty();
 
+		new Setting(containerEl).setName('Agents').setHeading();
+
+		new Setting(containerEl)
+			.setName('Default agent')
+			.setDesc('Agent used by new chat panes. Each pane can switch agents from its header.')
+			.addDropdown(dropdown => {
+				for (const profile of this.plugin.settings.agentProfiles) {
+					dropdown.addOption(profile.id, profile.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.activeAgentProfileId)
+					.onChange(async (value) => {
+						await this.plugin.setActiveAgentProfile(value);
+					});
+			});
+
+		for (const profile of this.plugin.settings.agentProfiles) {
+			this.displayProfile(containerEl, profile);
+		}
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add agent')
+				.onClick(async () => {
+					this.plugin.settings.agentProfiles.push({
+						...cloneAgentProfile(DEFAULT_AGENT_PROFILE),
+						id: createAgentProfileId(),
+						name: 'New agent',
+						command: ''
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Add mock agent')
+				.setTooltip('Scriptable local agent for development and testing')
+				.onClick(async () => {
+					await this.addMockAgent();
+				}));
+
+		new Setting(containerEl).setName('Chat').setHeading();
+
+		new Setting(containerEl)
+			.setName('Agent thinking')
+			.setDesc('How the reasoning agents stream before answering appears in the chat.')
+			.addDropdown(dropdown => dropdown
+				.addOptions(THOUGHT_DISPLAY_OPTIONS)
+				.setValue(this.plugin.settings.thoughtDisplay)
+				.onChange(async (value) => {
+					this.plugin.settings.thoughtDisplay = value as ThoughtDisplay;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Save conversations as notes')
+			.setDesc('Write each chat to a note after every agent turn. The export command saves the current chat at any time.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSaveConversations)
+				.onChange(async (value) => {
+					this.plugin.settings.autoSaveConversations = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
-			.setName('Settings #1')
-			.setDesc('It\'s a secret')
+			.setName('Conversation folder')
+			.setDesc('Vault folder for saved conversations.')
 			.addText(text => text
-				.setPlaceholder('Enter your secret')
-				.setValue(this.plugin.settings.mySetting)
+				.setPlaceholder(DEFAULT_CONVERSATION_FOLDER)
+				.setValue(this.plugin.settings.conversationFolder)
 				.onChange(async (value) => {
-					this.plugin.settings.mySetting = value;
+					this.plugin.settings.conversationFolder = value.trim()
+						? normalizePath(value.trim())
+						: DEFAULT_CONVERSATION_FOLDER;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl).setName('File access').setHeading();
+
+		new Setting(containerEl)
+			.setName('Review agent writes')
+			.setDesc('Hold each file write from an agent until you accept, edit or reject it in the chat pane.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reviewWrites)
+				.onChange(async (value) => {
+					this.plugin.settings.reviewWrites = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayAccessRules(containerEl);
+
+		new Setting(containerEl)
+			.setName('Model context protocol servers')
+			.setDesc('Servers passed to new agent sessions. Enable each server for the agents that should use it.')
+			.setHeading();
+
+		for (const server of this.plugin.settings.mcpServers) {
+			this.displayMcpServer(containerEl, server);
+		}
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add server')
+				.onClick(async () => {
+					this.plugin.settings.mcpServers.push(createMcpServerConfig());
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl).setName('Diagnostics').setHeading();
+
+		new Setting(containerEl)
+			.setName('Log protocol messages')
+			.setDesc('Record every message exchanged with agents in the diagnostics view. Messages can contain note contents.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.protocolLogging)
+				.onChange(async (value) => {
+					this.plugin.settings.protocolLogging = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Agent diagnostics')
+			.setDesc('Process output, exit codes and the protocol log.')
+			.addButton(button => button
+				.setButtonText('Open diagnostics')
+				.onClick(() => {
+					void this.plugin.activateDiagnosticsView();
+				}));
+	}
+
+	private displayAccessRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Access rules')
+			.setDesc('Glob patterns over vault paths, checked top to bottom. The first matching rule applies; paths no rule matches are fully accessible.');
+
+		const rules = this.plugin.settings.accessRules;
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Folder/**')
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						rule.pattern = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption('none', 'No access')
+					.addOption('read', 'Read only')
+					.addOption('readwrite', 'Read and write')
+					.setValue(rule.access)
+					.onChange(async (value) => {
+						rule.access = value as AccessLevel;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						rules.splice(index - 1, 0, ...rules.splice(index, 1));
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove rule')
+					.onClick(async () => {
+						this.plugin.settings.accessRules = rules.filter((item) => item.id !== rule.id);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					rules.push(createAccessRule());
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const tester = new Setting(containerEl)
+			.setName('Test a path')
+			.setDesc('Enter a vault path to see which rule applies.');
+		tester.addText(text => text
+			.setPlaceholder('Folder/note.md')
+			.onChange((value) => {
+				const path = normalizePath(value.trim());
+				tester.setDesc(value.trim()
+					? describeAccess(evaluateAccess(this.plugin.settings.accessRules, path))
+					: 'Enter a vault path to see which rule applies.');
+			}));
+	}
+
+	private async addMockAgent(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const execPath = getExecPath();
+		const pluginDir = this.plugin.manifest.dir;
+		if (!(adapter instanceof FileSystemAdapter) || !execPath || !pluginDir) {
+			new Notice('The mock agent is only available on desktop.');
+			return;
+		}
+
+		const scriptPath = normalizePath(`${pluginDir}/${MOCK_AGENT_SCRIPT}`);
+		if (!(await adapter.exists(scriptPath))) {
+			new Notice(`${MOCK_AGENT_SCRIPT} is missing from the plugin folder.`);
+			return;
+		}
+
+		this.plugin.settings.agentProfiles.push(
+			createMockAgentProfile(execPath, adapter.getFullPath(scriptPath))
+		);
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	private displayProfile(containerEl: HTMLElement, profile: AgentProfile): void {
+		const updateProfile = async (patch: Partial<AgentProfile>) => {
+			Object.assign(profile, patch);
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName(profile.name || 'Unnamed agent')
+			.setHeading()
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove agent')
+				.setDisabled(this.plugin.settings.agentProfiles.length <= 1)
+				.onClick(async () => {
+					await this.plugin.removeAgentProfile(profile.id);
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					await updateProfile({ name: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Command')
+			.setDesc('Executable that speaks the agent client protocol over stdio.')
+			.addText(text => {
+				text.setValue(profile.command);
+				commitOnBlurOrEnter(text.inputEl, (value) => updateProfile({ command: value.trim() }));
+			});
+
+		new Setting(containerEl)
+			.setName('Arguments')
+			.setDesc('Space separated; quote arguments that contain spaces.')
+			.addText(text => {
+				text.setValue(formatArgs(profile.args));
+				commitOnBlurOrEnter(text.inputEl, (value) => updateProfile({ args: parseArgs(value) }));
+			});
+
+		new Setting(containerEl)
+			.setName('Environment variables')
+			.setDesc('One name=value pair per line, added to the inherited environment.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('Name=value')
+					.setValue(formatEnv(profile.env));
+				commitOnBlurOrEnter(text.inputEl, (value) => updateProfile({ env: parseEnv(value) }));
+			});
+
+		new Setting(containerEl)
+			.setName('Working directory')
+			.setDesc('Absolute path, or relative to the vault root. Empty uses the vault root.')
+			.addText(text => {
+				text.setValue(profile.cwd);
+				commitOnBlurOrEnter(text.inputEl, (value) => updateProfile({ cwd: value.trim() }));
+			});
+
+		new Setting(containerEl)
+			.setName('Shell mode')
+			.setDesc('A login shell picks up the path from your shell profile. Only used on macOS and Linux.')
+			.addDropdown(dropdown => dropdown
+				.addOption('login', 'Login shell')
+				.addOption('direct', 'Direct')
+				.setValue(profile.shellMode)
+				.onChange(async (value) => {
+					await updateProfile({ shellMode: value === 'direct' ? 'direct' : 'login' });
+				}));
+
+		new Setting(containerEl)
+			.setName('Default mode')
+			.setDesc('Session mode for new chats, saved when you pick a mode in the chat header. Empty keeps the agent\'s default.')
+			.addText(text => text
+				.setValue(profile.defaultModeId)
+				.onChange(async (value) => {
+					await updateProfile({ defaultModeId: value.trim() });
+				}));
+	}
+
+	private displayMcpServer(containerEl: HTMLElement, server: McpServerConfig): void {
+		const updateServer = async (patch: Partial<McpServerConfig>) => {
+			Object.assign(server, patch);
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName(server.name || 'Unnamed server')
+			.setHeading()
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove server')
+				.onClick(async () => {
+					this.plugin.settings.mcpServers = this.plugin.settings.mcpServers
+						.filter((item) => item.id !== server.id);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(server.name)
+				.onChange(async (value) => {
+					await updateServer({ name: value.trim() });
+				}));
+
+		new Setting(containerEl)
+			.setName('Transport')
+			.setDesc('Remote servers are only sent to agents that support their transport.')
+			.addDropdown(dropdown => dropdown
+				.addOption('stdio', 'Stdio')
+				.addOption('http', 'HTTP')
+				.addOption('sse', 'SSE')
+				.setValue(server.transport)
+				.onChange(async (value) => {
+					await updateServer({ transport: value as McpTransport });
+					this.display();
+				}));
+
+		if (server.transport === 'stdio') {
+			new Setting(containerEl)
+				.setName('Command')
+				.addText(text => text
+					.setValue(server.command)
+					.onChange(async (value) => {
+						await updateServer({ command: value.trim() });
+					}));
+
+			new Setting(containerEl)
+				.setName('Arguments')
+				.setDesc('Space separated; quote arguments that contain spaces.')
+				.addText(text => text
+					.setValue(formatArgs(server.args))
+					.onChange(async (value) => {
+						await updateServer({ args: parseArgs(value) });
+					}));
+
+			new Setting(containerEl)
+				.setName('Environment variables')
+				.setDesc('One name=value pair per line.')
+				.addTextArea(text => text
+					.setPlaceholder('Name=value')
+					.setValue(formatEnv(server.env))
+					.onChange(async (value) => {
+						await updateServer({ env: parseEnv(value) });
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName('URL')
+				.addText(text => text
+					.setValue(server.url)
+					.onChange(async (value) => {
+						await updateServer({ url: value.trim() });
+					}));
+
+			new Setting(containerEl)
+				.setName('Headers')
+				.setDesc('One name: value pair per line.')
+				.addTextArea(text => text
+					.setPlaceholder('Name: value')
+					.setValue(formatHeaders(server.headers))
+					.onChange(async (value) => {
+						await updateServer({ headers: parseHeaders(value) });
+					}));
+		}
+
+		for (const profile of this.plugin.settings.agentProfiles) {
+			new Setting(containerEl)
+				.setName(`Enable for ${profile.name || 'unnamed agent'}`)
+				.addToggle(toggle => toggle
+					.setValue(server.enabledAgentProfileIds.includes(profile.id))
+					.onChange(async (value) => {
+						const others = server.enabledAgentProfileIds.filter((id) => id !== profile.id);
+						await updateServer({
+							enabledAgentProfileIds: value ? [...others, profile.id] : others
+						});
+					}));
+		}
 	}
 }
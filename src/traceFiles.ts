@@ -0,0 +1,65 @@
+import { App, FuzzySuggestModal, PluginManifest, normalizePath } from "obsidian";
+import { TRACE_FILE_EXTENSION, TraceRecorder } from "acp/trace";
+
+export const getTraceFolder = (app: App, manifest: PluginManifest): string =>
+    normalizePath(`${manifest.dir ?? `${app.vault.configDir}/plugins/${manifest.id}`}/traces`);
+
+/**
+ * Writes a recorded trace to the plugin's trace folder and returns its path.
+ */
+export const saveTrace = async (
+    app: App,
+    manifest: PluginManifest,
+    recorder: TraceRecorder
+): Promise<string> => {
+    const adapter = app.vault.adapter;
+    const folder = getTraceFolder(app, manifest);
+    if (!(await adapter.exists(folder))) {
+        await adapter.mkdir(folder);
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const path = normalizePath(`${folder}/${recorder.profileId}-${stamp}.${TRACE_FILE_EXTENSION}`);
+    await adapter.write(path, recorder.toNdjson());
+    return path;
+};
+
+/**
+ * Traces in the plugin folder plus any trace files placed in the vault,
+ * e.g. ones shared by teammates.
+ */
+export const listTraceFiles = async (app: App, manifest: PluginManifest): Promise<string[]> => {
+    const adapter = app.vault.adapter;
+    const folder = getTraceFolder(app, manifest);
+    const pluginTraces = (await adapter.exists(folder))
+        ? (await adapter.list(folder)).files.filter((path) => path.endsWith(`.${TRACE_FILE_EXTENSION}`))
+        : [];
+    const vaultTraces = app.vault.getFiles()
+        .filter((file) => file.extension === TRACE_FILE_EXTENSION)
+        .map((file) => file.path);
+
+    return [...pluginTraces.sort().reverse(), ...vaultTraces];
+};
+
+export class TraceSelectModal extends FuzzySuggestModal<string> {
+    constructor(
+        app: App,
+        private paths: string[],
+        private onSelect: (path: string) => void
+    ) {
+        super(app);
+        this.setPlaceholder("Choose a trace to replay");
+    }
+
+    getItems(): string[] {
+        return this.paths;
+    }
+
+    getItemText(path: string): string {
+        return path;
+    }
+
+    onChooseItem(path: string): void {
+        this.onSelect(path);
+    }
+}